@@ -1,58 +1,237 @@
 import * as vscode from 'vscode';
-import { VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, getModel, resolveInheritance, getAssociationRoleInfo } from './DataProvider';
+import { VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, ModelIndex, getModelIndex, getAssociationRoleInfo } from './DataProvider';
+import { getActiveModelProfile } from './ModelProfiles';
+import {
+    Binding, BindingKind, Token, findClosingBracket, getAccessorsText, getChainText, getScopeAnalysis, getStringValue,
+    getTrailingExpression, isTuple, parseAnnotation, parseCall, splitTopLevel, stripParens, tokenize
+} from './PythonScope';
+import { SCRIPT_GLOBALS, VTCAPP_FUNCTIONS, VtcappFunction, findClassNameArguments, parseOclExpression } from './VtcappCatalog';
+
+/**
+ * A member or association access in a chain expression, reported while resolving the chain.
+ */
+export interface ChainAccess {
+    partIndex: number;                          // Index of the accessed part in the chain, e.g. 1 for "projekt.phasen".
+    name: string;                               // Accessed name as written in the script.
+    ownerClass: VertecClass;                    // Class on which the member or association is accessed.
+    member?: EnrichedVertecMember;
+    association?: EnrichedVertecAssociation;
+    isMulti: boolean;                           // true if the association returns a list.
+}
+
+/**
+ * Type of an expression: the class, or the element class if it is a list.
+ */
+interface ResolvedType {
+    className: string | null;
+    isList: boolean;
+}
+
+// Bindings which end the search for a variable type, they shadow older assignments.
+const UNTYPED_BINDINGS = new Set<BindingKind>(['import', 'function', 'class', 'except']);
+
+// Builtins which return a list of the elements of their first argument.
+const LIST_FUNCTIONS = new Set(['list', 'sorted', 'reversed']);
+
+/**
+ * Builds the documentation of a vtcapp function.
+ */
+function buildVtcappDocumentation(vtcappFunction: VtcappFunction): string {
+    const result = vtcappFunction.classArgument !== undefined
+        ? `Object${vtcappFunction.isList ? 's' : ''} of the class named by argument ${vtcappFunction.classArgument + 1}`
+        : vtcappFunction.className;
+
+    return [
+        `**vtcapp.${vtcappFunction.signature}**`,
+        '',
+        vtcappFunction.description,
+        ...(result ? ['', `**Returns:** ${result}`] : [])
+    ].join('\n');
+}
+
+/**
+ * A chain expression like "projekt.phasen[0].code" or "vtcapp.currentlogin().stufe" found in a line of a script.
+ */
+export interface ChainExpression {
+    chain: string;
+    line: number;
+    start: number;              // Column of the chain.
+    partColumns: number[];      // Columns of the chain parts, see ChainAccess.partIndex. The call is the first part of a chain after a call.
+}
+
+// Chains with at least one member access, e.g. "projekt.phasen[0].code".
+const CHAIN_REGEX = /(?<![\w.\]])[A-Za-z_]\w*(?:\.\w+|\[[\d\w]+\])+/g;
+const CHAIN_PART_REGEX = /(\w+)|\[[\d\w]+\]/g;
+// Accessors after a call, e.g. ").stufe" of "vtcapp.currentlogin().stufe", and the called name before its parenthesis.
+const CALL_CHAIN_REGEX = /\)((?:\.\w+|\[[\d\w]+\])+)/g;
+const CALLED_NAME_REGEX = /(?<![\w.\])])[A-Za-z_]\w*(?:\.\w+)*$/;
+
+/**
+ * Replaces string literals and comments by spaces, so the columns stay the same.
+ */
+function maskStringsAndComments(line: string): string {
+    const masked = line.replace(/(["'])(?:\\.|(?!\1).)*\1/g, match => ' '.repeat(match.length));
+    const commentStart = masked.indexOf('#');
+    return commentStart >= 0 ? masked.substring(0, commentStart) : masked;
+}
+
+/**
+ * Returns the columns of the parts of a chain text, see CHAIN_PART_REGEX.
+ */
+function getPartColumns(chain: string, start: number): number[] {
+    const partColumns: number[] = [];
+    let part;
+    CHAIN_PART_REGEX.lastIndex = 0;
+    while ((part = CHAIN_PART_REGEX.exec(chain)) !== null) {
+        partColumns.push(start + part.index);
+    }
+
+    return partColumns;
+}
+
+/**
+ * Returns the column of the opening parenthesis of the call which closes at a column, or -1.
+ */
+function findCallStart(masked: string, close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+        if (')]}'.includes(masked[i])) {
+            depth++;
+        } else if ('([{'.includes(masked[i]) && --depth === 0) {
+            return masked[i] === '(' ? i : -1;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Finds the chain expressions of a line, outside of string literals and comments.
+ * Chains after a call of a named function, e.g. "vtcapp.currentlogin().stufe", start with the call.
+ */
+export function findChainExpressions(lineText: string, line: number): ChainExpression[] {
+    const masked = maskStringsAndComments(lineText);
+    const expressions: ChainExpression[] = [];
+
+    let match;
+    CHAIN_REGEX.lastIndex = 0;
+    while ((match = CHAIN_REGEX.exec(masked)) !== null) {
+        expressions.push({ chain: match[0], line, start: match.index, partColumns: getPartColumns(match[0], match.index) });
+    }
+
+    CALL_CHAIN_REGEX.lastIndex = 0;
+    while ((match = CALL_CHAIN_REGEX.exec(masked)) !== null) {
+        const open = findCallStart(masked, match.index);
+        const name = open > 0 ? CALLED_NAME_REGEX.exec(masked.substring(0, open)) : null;
+        if (name) {
+            const accessorsStart = match.index + 1;
+            expressions.push({
+                chain: lineText.substring(name.index, accessorsStart + match[1].length),
+                line,
+                start: name.index,
+                partColumns: [name.index, ...getPartColumns(match[1], accessorsStart)]
+            });
+        }
+    }
+
+    return expressions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A name in a script which refers to a class, if the model contains it.
+ */
+export interface ClassReference {
+    name: string;
+    column: number;
+}
+
+/**
+ * Finds the class references of a line: the names in annotations, e.g. "Projekt" of "projekt: Projekt = argobject"
+ * or "List['Leistung']", and the class names passed to vtcapp functions, e.g. 'vtcapp.getwithsql("Projekt", "", "")'.
+ * Names like "List" are included too, the caller looks them up in the model.
+ */
+export function findClassReferences(document: vscode.TextDocument, lineNumber: number): ClassReference[] {
+    const references: ClassReference[] = [];
+    getScopeAnalysis(document).getAnnotationTokens(lineNumber).forEach(token => {
+        const reference = getStringValue(token);
+        if (token.type === 'name') {
+            references.push({ name: token.value, column: token.column });
+        } else if (reference !== null && /^\w+$/.test(reference)) {
+            references.push({ name: reference, column: token.column + token.value.indexOf(reference) });
+        }
+    });
+
+    findClassNameArguments(tokenize(document.lineAt(lineNumber).text)).forEach(({ token, className }) => {
+        references.push({ name: className, column: token.column + token.value.indexOf(className) });
+    });
+
+    return references;
+}
+
+/**
+ * Splits a chain after a call like "vtcapp.getwithsql('Projekt', '', '')[0].kunde" into the call and the accessors.
+ * @returns null if the tokens are no call with accessors.
+ */
+function splitCallChain(tokens: Token[]): { call: Token[]; accessors: Token[] } | null {
+    const expression = stripParens(tokens);
+    const open = expression.findIndex(token => token.value === '(');
+    const close = open > 0 ? findClosingBracket(expression, open) : expression.length;
+
+    return close < expression.length - 1 ? { call: expression.slice(0, close + 1), accessors: expression.slice(close + 1) } : null;
+}
 
 /**
  * Shared utilities for completion and hover providers
  */
 class VertecModelHelper {
+    // Resolved member types per model index, the partial match is expensive.
+    private static memberTypeCache = new WeakMap<ModelIndex, Map<string, string | null>>();
+
     /**
-     * Loads class data from DataProvider
+     * Loads the model index from DataProvider, using the model profile of the document
      */
-    static async getClasses(): Promise<VertecClass[] | null> {
+    static async getIndex(document: vscode.TextDocument): Promise<ModelIndex | null> {
         try {
-            return await getModel<VertecClass>(false);
+            return await getModelIndex(false, getActiveModelProfile(document.uri));
         } catch (error) {
             console.error('Error loading Vertec model', error);
             return null;
         }
     }
 
-    /**
-     * Finds a class by name (German or English)
-     */
-    static findClass(classes: VertecClass[], className: string): VertecClass | null {
-        const lowerClassName = className.toLowerCase();
-        return classes.find(cls =>
-            cls.name.toLowerCase() === lowerClassName ||
-            cls.name_alt.toLowerCase() === lowerClassName
-        ) || null;
-    }
-
     /**
      * Try to map a member type to a class name
      */
-    static mapMemberTypeToClassName(memberType: string, classes: VertecClass[]): string | null {
-        const directMatch = classes.find(c =>
-            c.name.toLowerCase() === memberType.toLowerCase() ||
-            c.name_alt.toLowerCase() === memberType.toLowerCase()
-        );
-
-        if (directMatch) {
-            return directMatch.name;
+    static mapMemberTypeToClassName(memberType: string, index: ModelIndex): string | null {
+        let cache = this.memberTypeCache.get(index);
+        if (!cache) {
+            cache = new Map<string, string | null>();
+            this.memberTypeCache.set(index, cache);
         }
 
         const typeLower = memberType.toLowerCase();
+        if (cache.has(typeLower)) {
+            return cache.get(typeLower)!;
+        }
 
-        const partialMatch = classes.find(c =>
-            c.name.toLowerCase().includes(typeLower) ||
-            c.name_alt.toLowerCase().includes(typeLower)
-        );
+        let className: string | null = null;
 
-        if (partialMatch) {
-            return partialMatch.name;
+        const directMatch = index.findClass(memberType);
+        if (directMatch) {
+            className = directMatch.name;
+        } else {
+            const partialMatch = index.classes.find(c =>
+                c.name.toLowerCase().includes(typeLower) ||
+                c.name_alt.toLowerCase().includes(typeLower)
+            );
+
+            if (partialMatch) {
+                className = partialMatch.name;
+            }
         }
 
-        return null;
+        cache.set(typeLower, className);
+        return className;
     }
 
     /**
@@ -72,6 +251,11 @@ class VertecModelHelper {
         docParts.push(`**Names:** ${member.name} | ${member.name_alt}`);
         docParts.push('');
 
+        if (member.is_custom) {
+            docParts.push(`**Custom:** defined in the workspace model overlay`);
+            docParts.push('');
+        }
+
         docParts.push(`**Type:** ${member.member_type || '-/-'}`);
         docParts.push('');
 
@@ -115,6 +299,11 @@ class VertecModelHelper {
         docParts.push(`**Names:** ${assoc.perceived_name} | ${assoc.perceived_name_alt}`);
         docParts.push('\n');
 
+        if (assoc.is_custom) {
+            docParts.push(`**Custom:** defined in the workspace model overlay`);
+            docParts.push('');
+        }
+
         docParts.push(`**Class:** ${roleInfo1?.role_class?.name || '-/-'} | ${roleInfo1?.role_class_alt?.name || '-/-'}`);
         docParts.push('');
 
@@ -154,6 +343,11 @@ class VertecModelHelper {
         docParts.push(`**Names:** ${cls.name} | ${cls.name_alt} (ID: ${cls.class_id})`);
         docParts.push('\n');
 
+        if (cls.is_custom) {
+            docParts.push(`**Custom:** defined in the workspace model overlay`);
+            docParts.push('');
+        }
+
         if (cls.table_mapping) {
             docParts.push(`**DB:** ${cls.table_mapping}`);
             docParts.push('');
@@ -175,7 +369,7 @@ class VertecModelHelper {
  * Activates the AutoCompletor by registering the completion provider
  */
 export function activateAutoCompletor(context: vscode.ExtensionContext): void {
-    const providerInstance = new VertecCompletionProvider();
+    const providerInstance = getCompletionProvider();
 
     const provider = vscode.languages.registerCompletionItemProvider(
         [
@@ -187,7 +381,14 @@ export function activateAutoCompletor(context: vscode.ExtensionContext): void {
         ...('abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_'.split('')) // Trigger on any letter or underscore
     );
 
-    context.subscriptions.push(provider);
+    context.subscriptions.push(
+        provider,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('vertecVscodeExtension.ArgobjectClass')) {
+                providerInstance.clearTypeCache();
+            }
+        })
+    );
 
     activateHoverProvider(context, providerInstance);
 }
@@ -196,6 +397,19 @@ export function activateAutoCompletor(context: vscode.ExtensionContext): void {
  * Completion Item Provider for Vertec Python scripts
  */
 class VertecCompletionProvider implements vscode.CompletionItemProvider {
+    // Completion items per model index and class id.
+    private completionItemCache = new WeakMap<ModelIndex, Map<number, vscode.CompletionItem[]>>();
+
+    // Types of the bindings per model index. The bindings are recreated with each document version.
+    private bindingTypeCache = new WeakMap<ModelIndex, WeakMap<Binding, ResolvedType | null>>();
+
+    /**
+     * Forgets the types of the bindings, e.g. after the class of a script global changed.
+     */
+    clearTypeCache(): void {
+        this.bindingTypeCache = new WeakMap();
+    }
+
     /**
      * Provides completion items for the current cursor position
      */
@@ -207,34 +421,36 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
         const lineText = document.lineAt(position).text;
         const textBeforeCursor = lineText.substring(0, position.character);
 
-        // Match: object.property.another OR object.partial
-        // Captures the full chain before the last dot
-        const match = textBeforeCursor.match(/(\w+(?:\.\w+|\[[\d\w]+\])*)\.(\w*)$/);
+        // Match: expression.partial, e.g. "projekt.phasen[0].co" or "vtcapp.currentlogin()."
+        const match = textBeforeCursor.match(/\.(\w*)$/);
         if (!match) {
             return undefined;
         }
 
-        const fullChain = match[1];
+        const textBeforeDot = textBeforeCursor.substring(0, match.index);
+        if (/(?<![\w.])vtcapp\s*$/.test(textBeforeDot)) {
+            return this.createVtcappCompletionItems();
+        }
 
-        // Resolve the full chain
-        const { className, isList } = await this.resolveChain(document, position, fullChain);
+        // Resolve the expression before the dot
+        const { className, isList } = await this.resolveExpressionBefore(document, position, textBeforeDot);
 
         // If we end with a list, NO completions (user needs to add [0])
         if (isList || !className) {
             return undefined;
         }
 
-        const classes = await VertecModelHelper.getClasses();
-        if (!classes || classes.length === 0) {
+        const index = await VertecModelHelper.getIndex(document);
+        if (!index || index.classes.length === 0) {
             return undefined;
         }
 
-        const cls = VertecModelHelper.findClass(classes, className);
+        const cls = index.findClass(className);
         if (!cls) {
             return undefined;
         }
 
-        const items = this.generateCompletionItems(cls, classes);
+        const items = this.generateCompletionItems(cls, index);
 
         return items;
     }
@@ -242,32 +458,58 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
     /**
      * Resolves a chain expression to its final type
      * Centralized function used by all completion and hover features
+     * @param onAccess optional: called for each resolved member or association access of the chain.
+     * @param visited the bindings being resolved, to stop at bindings which depend on themselves.
      */
     private async resolveChain(
         document: vscode.TextDocument,
         position: vscode.Position,
-        chain: string
-    ): Promise<{ className: string | null; isList: boolean }> {
+        chain: string,
+        onAccess?: (access: ChainAccess) => void,
+        visited = new Set<Binding>()
+    ): Promise<ResolvedType> {
+        // Chain after a call, its base is the type of the call, e.g. "vtcapp.currentlogin().stufe".
+        const callChain = chain.includes('(') ? splitCallChain(tokenize(chain).filter(token => token.type !== 'newline')) : null;
+        if (callChain) {
+            const callType = await this.evaluateExpression(document, callChain.call, document.offsetAt(position), visited);
+            const accessorParts = this.parseChainParts(chain.substring(callChain.accessors[0].start));
+            return callType
+                ? this.resolveParts(document, callType, [{ name: '', isListAccess: false }, ...accessorParts], onAccess)
+                : { className: null, isList: false };
+        }
+
         const parts = this.parseChainParts(chain);
         if (parts.length === 0) {
             return { className: null, isList: false };
         }
 
-        // Find type of base variable
+        // Find type of base variable, it can be a list
+        // This handles cases like: phases = projekt.phasen; phases[0].aktiv
         const baseVar = parts[0].name;
-        let currentClassName = await this.findVariableTypeSimple(document, position, baseVar);
+        const baseType = await this.resolveVariable(document, position, baseVar, visited);
+        return this.resolveParts(document, baseType, parts, onAccess);
+    }
+
+    /**
+     * Resolves the parts of a chain after its base (parts[0]), starting with the type of the base.
+     */
+    private async resolveParts(
+        document: vscode.TextDocument,
+        baseType: ResolvedType,
+        parts: { name: string; isListAccess: boolean }[],
+        onAccess?: (access: ChainAccess) => void
+    ): Promise<ResolvedType> {
+        let currentClassName = baseType.className;
         if (!currentClassName) {
             return { className: null, isList: false };
         }
 
-        const classes = await VertecModelHelper.getClasses();
-        if (!classes) {
+        const index = await VertecModelHelper.getIndex(document);
+        if (!index) {
             return { className: null, isList: false };
         }
 
-        // Check if the base variable itself is a list
-        // This handles cases like: phases = projekt.phasen; phases[0].aktiv
-        let isList = await this.isVariableAList(document, position, baseVar);
+        let isList = baseType.isList;
 
         // Walk through the chain
         for (let i = 1; i < parts.length; i++) {
@@ -288,20 +530,16 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
                 return { className: null, isList: false };
             }
 
-            const currentClass = VertecModelHelper.findClass(classes, currentClassName);
+            const currentClass = index.findClass(currentClassName);
             if (!currentClass) {
                 return { className: null, isList: false };
             }
 
-            const { members, associations } = resolveInheritance(currentClass, classes);
-
-            const member = members.find(m =>
-                m.name.toLowerCase() === part.name.toLowerCase() ||
-                m.name_alt.toLowerCase() === part.name.toLowerCase()
-            );
+            const member = index.findMember(currentClass, part.name);
 
             if (member && member.member_type) {
-                const mappedType = VertecModelHelper.mapMemberTypeToClassName(member.member_type, classes);
+                onAccess?.({ partIndex: i, name: part.name, ownerClass: currentClass, member, isMulti: false });
+                const mappedType = VertecModelHelper.mapMemberTypeToClassName(member.member_type, index);
                 if (mappedType) {
                     currentClassName = mappedType;
                     isList = false; // Members are never lists
@@ -311,14 +549,18 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
                 }
             }
 
-            const association = associations.find(a =>
-                a.perceived_name.toLowerCase() === part.name.toLowerCase() ||
-                a.perceived_name_alt?.toLowerCase() === part.name.toLowerCase()
-            );
+            const association = index.findAssociation(currentClass, part.name);
 
             if (association) {
-                const roleInfo = getAssociationRoleInfo(association, currentClass, classes);
-                const roleInfo2 = getAssociationRoleInfo(association, currentClass, classes, true);
+                const roleInfo = getAssociationRoleInfo(association, currentClass, index.classes);
+                const roleInfo2 = getAssociationRoleInfo(association, currentClass, index.classes, true);
+                onAccess?.({
+                    partIndex: i,
+                    name: part.name,
+                    ownerClass: currentClass,
+                    association,
+                    isMulti: roleInfo2?.is_role_multi === true
+                });
                 if (roleInfo?.role_class) {
                     currentClassName = roleInfo.role_class.name;
                     // THIS IS THE KEY: Check if association is multi
@@ -336,107 +578,85 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
     }
 
     /**
-     * Finds the type of a variable by scanning for type hints in comments
+     * Resolves a chain expression and returns all member and association accesses of it.
      */
-    async findVariableType(
+    async resolveChainAccesses(
         document: vscode.TextDocument,
         position: vscode.Position,
-        variableName: string
-    ): Promise<string | null> {
-
-        const lineText = document.lineAt(position).text;
-        const textBeforeCursor = lineText.substring(0, position.character);
-
-        const chainMatch = textBeforeCursor.match(/(\w+(?:\.\w+|\[[\d\w]+\])+)\.$/);
-        if (chainMatch) {
-            const fullChain = chainMatch[1];
-            const { className, isList } = await this.resolveChain(document, position, fullChain);
-
-            // If ends with a list, cannot get type
-            if (isList) {
-                return null;
-            }
-
-            return className;
-        }
-
-        return this.findVariableTypeSimple(document, position, variableName);
+        chain: string
+    ): Promise<ChainAccess[]> {
+        const accesses: ChainAccess[] = [];
+        await this.resolveChain(document, position, chain, access => accesses.push(access));
+        return accesses;
     }
 
     /**
-     * Finds where a variable was assigned and returns its type with list info
-     * This is specifically for tracking list variables through assignments
+     * Resolves the class of the expression at a position: the owner of the member under the cursor
+     * ("projekt.phasen" → Projekt), the type of the chain before a dot or the type of a variable.
+     * @returns null for lists and unknown types.
      */
-    private async findVariableAssignmentWithListInfo(
+    async resolveClassAtPosition(
         document: vscode.TextDocument,
-        startLine: number,
-        variableName: string
-    ): Promise<{ className: string | null; isList: boolean } | null> {
-        for (let i = startLine; i >= 0; i--) {
-            const line = document.lineAt(i).text;
-
-            // Look for assignment
-            const assignmentRegex = new RegExp(`${variableName}\\s*=\\s*(\\w+(?:\\.\\w+|\\[[\\d\\w]+\\])*)`);
-            const assignmentMatch = line.match(assignmentRegex);
-            if (assignmentMatch) {
-                const sourceExpression = assignmentMatch[1];
-
-                // Check if there's a type hint on previous line
-                if (i > 0) {
-                    const prevLine = document.lineAt(i - 1).text;
-                    const typeMatch = prevLine.match(/#\s*type:\s*([\w]+)/);
-                    if (typeMatch) {
-                        // Type hint doesn't tell us if it's a list, so we default to non-list
-                        return { className: typeMatch[1], isList: false };
-                    }
-                }
+        position: vscode.Position
+    ): Promise<string | null> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        const textBefore = document.lineAt(position).text.substring(0, wordRange?.start.character ?? position.character);
 
-                // Resolve the source expression with list info
-                return await this.resolveExpressionWithListInfo(document, i, sourceExpression);
-            }
+        if (textBefore.endsWith('.')) {
+            const { className, isList } = await this.resolveExpressionBefore(document, position, textBefore.slice(0, -1));
+            return isList ? null : className;
+        }
 
-            // Don't scan beyond function or class boundaries
-            if (line.match(/^(def|class)\s+/)) {
-                break;
-            }
+        if (wordRange) {
+            const { className, isList } = await this.resolveVariable(document, position, document.getText(wordRange), new Set());
+            return isList ? null : className;
         }
 
         return null;
     }
 
     /**
-     * Checks if a variable contains a list by tracking its assignment
+     * Finds the type of a variable or of the chain before the cursor
      */
-    private async isVariableAList(
+    async findVariableType(
         document: vscode.TextDocument,
         position: vscode.Position,
         variableName: string
-    ): Promise<boolean> {
-        for (let i = position.line; i >= 0; i--) {
-            const line = document.lineAt(i).text;
-
-            // Check for assignment (e.g., phases = projekt.phasen)
-            const assignmentRegex = new RegExp(`${variableName}\\s*=\\s*(\\w+(?:\\.\\w+|\\[[\\d\\w]+\\])*)`);
-            const assignmentMatch = line.match(assignmentRegex);
-            if (assignmentMatch) {
-                const sourceExpression = assignmentMatch[1];
-
-                // Resolve the source expression with list info
-                const resolvedInfo = await this.resolveExpressionWithListInfo(document, i, sourceExpression);
-                if (resolvedInfo) {
-                    return resolvedInfo.isList;
-                }
+    ): Promise<string | null> {
 
-                return false;
-            }
+        const lineText = document.lineAt(position).text;
+        const textBeforeCursor = lineText.substring(0, position.character);
 
-            // Don't scan beyond function or class boundaries
-            if (line.match(/^(def|class)\s+/)) {
-                break;
+        if (textBeforeCursor.endsWith('.')) {
+            const { className, isList } = await this.resolveExpressionBefore(document, position, textBeforeCursor.slice(0, -1));
+
+            // If ends with a list, cannot get type
+            if (isList) {
+                return null;
             }
+
+            return className;
         }
 
-        return false;
+        const { className, isList } = await this.resolveVariable(document, position, variableName, new Set());
+        return isList ? null : className;
+    }
+
+    /**
+     * Resolves the type of the expression at the end of the text before a position, e.g. "projekt.phasen[0]"
+     * or "vtcapp.currentlogin()" of "if vtcapp.currentlogin()".
+     */
+    async resolveExpressionBefore(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        textBefore: string
+    ): Promise<ResolvedType> {
+        const expression = getTrailingExpression(tokenize(textBefore).filter(token => token.type !== 'newline'));
+        const type = expression.length > 0
+            ? await this.evaluateExpression(document, expression, document.offsetAt(position), new Set())
+            : null;
+
+        return type ?? { className: null, isList: false };
     }
 
     /**
@@ -459,164 +679,262 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
     }
 
     /**
-     * Simple type hint search with improved variable tracking
-     * Returns the element type (for lists) or the direct type
+     * Resolves the type of a variable with the scope analysis of the document: the type of the most recent binding
+     * visible at the position. Older or outer bindings are only used if that binding may have been skipped,
+     * e.g. in a branch before the position. Imports, functions and classes have no type.
+     * Globals of Vertec scripts like argobject get the class of their setting, if the script doesn't bind them.
      */
-    private async findVariableTypeSimple(
+    private async resolveVariable(
         document: vscode.TextDocument,
         position: vscode.Position,
-        variableName: string
-    ): Promise<string | null> {
-
-        for (let i = position.line; i >= 0; i--) {
-            const line = document.lineAt(i).text;
-
-            // Pattern 1: Inline type hint
-            const inlineRegex = new RegExp(`${variableName}\\s*=.*#\\s*type:\\s*([\\w]+)`);
-            const inlineMatch = line.match(inlineRegex);
-            if (inlineMatch) {
-                return inlineMatch[1];
+        variableName: string,
+        visited: Set<Binding>
+    ): Promise<ResolvedType> {
+        const analysis = getScopeAnalysis(document);
+        const offset = document.offsetAt(position);
+        const bindings = analysis.findBindings(variableName, offset);
+        for (const binding of bindings) {
+            if (UNTYPED_BINDINGS.has(binding.kind)) {
+                break;
+            }
+            const type = await this.resolveBinding(document, binding, visited);
+            if (type?.className) {
+                return type;
+            }
+            // An untyped parameter or assignment hides the older bindings.
+            if (analysis.isUnconditional(binding, offset)) {
+                break;
             }
+        }
 
-            // Pattern 2: For-loop iteration (e.g., for phase in phases:)
-            const forLoopRegex = new RegExp(`for\\s+${variableName}\\s+in\\s+(\\w+(?:\\.\\w+|\\[[\\d\\w]+\\])*)\\s*:`);
-            const forLoopMatch = line.match(forLoopRegex);
-            if (forLoopMatch) {
-                const iterableExpression = forLoopMatch[1];
-
-                // Check if there's a type hint on previous line
-                if (i > 0) {
-                    const prevLine = document.lineAt(i - 1).text;
-                    const typeMatch = prevLine.match(/#\s*type:\s*([\w]+)/);
-                    if (typeMatch) {
-                        return typeMatch[1];
-                    }
-                }
+        const scriptGlobal = bindings.length === 0 ? SCRIPT_GLOBALS.get(variableName) : undefined;
+        if (scriptGlobal?.setting) {
+            const className = vscode.workspace.getConfiguration('vertecVscodeExtension', document.uri).get(scriptGlobal.setting, '');
+            return { className: className.trim() || null, isList: false };
+        }
 
-                // Check if iterableExpression is a simple variable name (no dots or brackets)
-                if (/^\w+$/.test(iterableExpression)) {
-                    // It's a variable - we need to find what it contains
-                    // First, find where this variable was assigned
-                    const iterableInfo = await this.findVariableAssignmentWithListInfo(document, i, iterableExpression);
-                    if (iterableInfo && iterableInfo.isList && iterableInfo.className) {
-                        // Return the element type of the list
-                        return iterableInfo.className;
-                    }
-                } else {
-                    // It's an expression like projekt.phasen - resolve it directly
-                    const resolvedInfo = await this.resolveExpressionWithListInfo(document, i, iterableExpression);
-                    if (resolvedInfo && resolvedInfo.isList && resolvedInfo.className) {
-                        // Return the element type of the list
-                        return resolvedInfo.className;
-                    }
-                }
+        return { className: null, isList: false };
+    }
 
-                return null;
-            }
+    /**
+     * Resolves the type of a binding, cached per model index. Bindings which depend on themselves have no type.
+     */
+    private async resolveBinding(
+        document: vscode.TextDocument,
+        binding: Binding,
+        visited: Set<Binding>
+    ): Promise<ResolvedType | null> {
+        const index = await VertecModelHelper.getIndex(document);
+        if (!index || visited.has(binding)) {
+            return null;
+        }
 
-            // Pattern 3: Assignment from another variable (e.g., pl = projekt.projektleiter)
-            const assignmentRegex = new RegExp(`${variableName}\\s*=\\s*(\\w+(?:\\.\\w+|\\[[\\d\\w]+\\])*)`);
-            const assignmentMatch = line.match(assignmentRegex);
-            if (assignmentMatch) {
-                const sourceExpression = assignmentMatch[1];
-
-                // Check if there's a type hint on previous line
-                if (i > 0) {
-                    const prevLine = document.lineAt(i - 1).text;
-                    const typeMatch = prevLine.match(/#\s*type:\s*([\w]+)/);
-                    if (typeMatch) {
-                        return typeMatch[1];
-                    }
-                }
+        let types = this.bindingTypeCache.get(index);
+        if (!types) {
+            types = new WeakMap<Binding, ResolvedType | null>();
+            this.bindingTypeCache.set(index, types);
+        }
+        if (types.has(binding)) {
+            return types.get(binding)!;
+        }
 
-                // Try to resolve the source expression
-                const resolvedType = await this.resolveExpression(document, i, sourceExpression);
-                if (resolvedType) {
-                    return resolvedType;
-                }
+        visited.add(binding);
+        try {
+            const type = await this.evaluateBinding(document, binding, visited);
+            types.set(binding, type);
+            return type;
+        } finally {
+            visited.delete(binding);
+        }
+    }
 
-                return null;
-            }
+    /**
+     * Evaluates the type of a binding: its type comment, or the type of its value.
+     * Loop variables get the element type of the iterable, tuples are unpacked by the path of the target.
+     */
+    private async evaluateBinding(
+        document: vscode.TextDocument,
+        binding: Binding,
+        visited: Set<Binding>
+    ): Promise<ResolvedType | null> {
+        if (binding.typeHint) {
+            return parseAnnotation(binding.typeHint);
+        }
+        if (!binding.value || binding.path.includes(-1)) {
+            return null;
+        }
 
-            // Pattern 4: Function parameter with type hint
-            const paramRegex = new RegExp(`def\\s+\\w+\\s*\\([^)]*${variableName}[^)]*\\).*#\\s*type:\\s*\\(([^)]+)\\)`);
-            const paramMatch = line.match(paramRegex);
-            if (paramMatch) {
-                const types = paramMatch[1].split(',').map(t => t.trim());
-                if (types.length > 0) {
-                    return types[0];
+        let value = binding.value;
+        const path = [...binding.path];
+
+        if (binding.iterate) {
+            // Unpacking of enumerate and zip, e.g. "for i, phase in enumerate(projekt.phasen)".
+            for (const i of path) {
+                const call = parseCall(value);
+                if (call?.name === 'enumerate' && i === 1 && call.args.length > 0) {
+                    value = call.args[0];
+                } else if (call?.name === 'zip' && call.args[i]) {
+                    value = call.args[i];
+                } else {
+                    return null;
                 }
             }
 
-            // Don't scan beyond function or class boundaries
-            if (line.match(/^(def|class)\s+/)) {
-                break;
+            const iterable = await this.evaluateExpression(document, value, binding.offset, visited);
+            return iterable?.isList ? { className: iterable.className, isList: false } : null;
+        }
+
+        // Tuple unpacking, e.g. "kunde, phasen = projekt.kunde, projekt.phasen".
+        for (const i of path) {
+            const tuple = stripParens(value);
+            const items = splitTopLevel(tuple, ',');
+            if (!isTuple(tuple) || !items[i]) {
+                return null;
             }
+            value = items[i];
         }
 
-        return null;
+        return this.evaluateExpression(document, value, binding.offset, visited);
     }
 
     /**
-     * Resolves an expression like "projekt.projektleiter" or "liste[0]" to its type
+     * Evaluates the type of an expression at an offset: a chain like "projekt.phasen[0]", a call of
+     * list(), sorted() or reversed() with a list, a call of a vtcapp function or of evalocl, a call of a local
+     * function with return annotation, or a chain after a call like "vtcapp.currentlogin().stufe".
      */
-    private async resolveExpression(
+    private async evaluateExpression(
         document: vscode.TextDocument,
-        currentLine: number,
-        expression: string
-    ): Promise<string | null> {
-        // Create a position at the end of the line for proper context
-        const line = document.lineAt(currentLine).text;
-        const position = new vscode.Position(currentLine, line.length);
-
-        const { className, isList } = await this.resolveChain(document, position, expression);
+        tokens: Token[],
+        offset: number,
+        visited: Set<Binding>
+    ): Promise<ResolvedType | null> {
+        const call = parseCall(tokens);
+        if (call && LIST_FUNCTIONS.has(call.name) && call.args.length > 0) {
+            const argument = await this.evaluateExpression(document, call.args[0], offset, visited);
+            return argument?.isList ? argument : null;
+        }
+        if (call && (call.name.startsWith('vtcapp.') || call.name.endsWith('.evalocl'))) {
+            return this.evaluateVtcappCall(document, call, offset, visited);
+        }
+        if (call && !call.name.includes('.')) {
+            const [binding] = getScopeAnalysis(document).findBindings(call.name, offset);
+            return binding?.kind === 'function' && binding.returnType ? parseAnnotation(binding.returnType) : null;
+        }
 
-        // If ends with a list, cannot use as a type
-        if (isList) {
-            return null;
+        const chain = getChainText(tokens);
+        if (chain) {
+            const type = await this.resolveChain(document, document.positionAt(offset), chain, undefined, visited);
+            return type.className ? type : null;
         }
 
-        return className;
+        // Chain after a call, e.g. "vtcapp.getwithsql('Projekt', '', '')[0].kunde".
+        const callChain = splitCallChain(tokens);
+        const accessors = callChain ? getAccessorsText(callChain.accessors) : null;
+        const base = callChain && accessors ? await this.evaluateExpression(document, callChain.call, offset, visited) : null;
+
+        return base && accessors ? this.resolveAccessors(document, base, accessors) : null;
     }
 
     /**
-     * Resolves an expression and returns both className and isList info
-     * Used for tracking list types in variables
+     * Resolves accessors like ".phasen[0].code" on a type.
      */
-    private async resolveExpressionWithListInfo(
+    private async resolveAccessors(document: vscode.TextDocument, baseType: ResolvedType, accessors: string): Promise<ResolvedType | null> {
+        const type = await this.resolveParts(document, baseType, [{ name: '', isListAccess: false }, ...this.parseChainParts(accessors)]);
+        return type.className ? type : null;
+    }
+
+    /**
+     * Evaluates the type of a call of the vtcapp catalog, e.g. "vtcapp.getwithsql('Projekt', ...)", or of an
+     * OCL expression with "vtcapp.evalocl(expression, rootobject)" or "rootobject.evalocl(expression)".
+     */
+    private async evaluateVtcappCall(
         document: vscode.TextDocument,
-        currentLine: number,
-        expression: string
-    ): Promise<{ className: string | null; isList: boolean } | null> {
-        // Create a position at the end of the line for proper context
-        const line = document.lineAt(currentLine).text;
-        const position = new vscode.Position(currentLine, line.length);
+        call: { name: string; args: Token[][] },
+        offset: number,
+        visited: Set<Binding>
+    ): Promise<ResolvedType | null> {
+        const separator = call.name.lastIndexOf('.');
+        const receiver = call.name.substring(0, separator);
+        const functionName = call.name.substring(separator + 1);
+        const getStringArgument = (i: number) => call.args[i]?.length === 1 ? getStringValue(call.args[i][0]) : null;
+
+        if (functionName === 'evalocl') {
+            const expression = getStringArgument(0);
+            const ocl = expression !== null ? parseOclExpression(expression) : null;
+            if (!ocl) {
+                return null;
+            }
 
-        return await this.resolveChain(document, position, expression);
+            let rootType: ResolvedType | null = null;
+            if (ocl.className) {
+                rootType = { className: ocl.className, isList: true };
+            } else if (receiver !== 'vtcapp') {
+                rootType = await this.resolveChain(document, document.positionAt(offset), receiver, undefined, visited);
+            } else if (call.args.length > 1) {
+                rootType = await this.evaluateExpression(document, call.args[1], offset, visited);
+            }
+            if (!rootType?.className) {
+                return null;
+            }
+
+            return ocl.accessors ? this.resolveAccessors(document, rootType, ocl.accessors) : rootType;
+        }
+
+        const vtcappFunction = receiver === 'vtcapp' ? VTCAPP_FUNCTIONS.get(functionName) : undefined;
+        const className = vtcappFunction?.classArgument !== undefined
+            ? getStringArgument(vtcappFunction.classArgument)
+            : vtcappFunction?.className;
+
+        return vtcappFunction && className ? { className, isList: vtcappFunction.isList } : null;
     }
 
     /**
-     * Generates completion items for a class (members and associations)
+     * Generates completion items for a class (members and associations).
+     * The items are cached per model index and class.
      */
     private generateCompletionItems(
         cls: VertecClass,
-        allClasses: VertecClass[]
+        index: ModelIndex
     ): vscode.CompletionItem[] {
+        let itemsByClass = this.completionItemCache.get(index);
+        if (!itemsByClass) {
+            itemsByClass = new Map<number, vscode.CompletionItem[]>();
+            this.completionItemCache.set(index, itemsByClass);
+        }
+
+        const cachedItems = itemsByClass.get(cls.class_id);
+        if (cachedItems) {
+            return cachedItems;
+        }
+
         const items: vscode.CompletionItem[] = [];
 
-        const { members, associations } = resolveInheritance(cls, allClasses);
+        const { members, associations } = index.resolve(cls);
 
         members.forEach(member => {
             items.push(this.createMemberCompletionItem(member, cls));
         });
 
         associations.forEach(assoc => {
-            items.push(this.createAssociationCompletionItem(assoc, cls, allClasses));
+            items.push(this.createAssociationCompletionItem(assoc, cls, index.classes));
         });
 
+        itemsByClass.set(cls.class_id, items);
         return items;
     }
 
+    /**
+     * Creates the completion items of the vtcapp functions.
+     */
+    private createVtcappCompletionItems(): vscode.CompletionItem[] {
+        return [...VTCAPP_FUNCTIONS].map(([name, vtcappFunction]) => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Function);
+            item.detail = vtcappFunction.signature;
+            item.documentation = new vscode.MarkdownString(buildVtcappDocumentation(vtcappFunction));
+            return item;
+        });
+    }
+
     /**
      * Creates a completion item for a member
      */
@@ -634,7 +952,7 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
         item.documentation = new vscode.MarkdownString(docParts.join('\n'));
         item.filterText = `${member.name} | ${member.name_alt}`;
         item.sortText = `${member.name} | ${member.name_alt}`;
-        item.detail = member.member_type || 'Member';
+        item.detail = `${member.member_type || 'Member'}${member.is_custom ? ' (custom)' : ''}`;
 
         return item;
     }
@@ -657,7 +975,7 @@ class VertecCompletionProvider implements vscode.CompletionItemProvider {
 
         const docParts = VertecModelHelper.buildAssociationDocumentation(assoc, ownerClass, allClasses);
         item.documentation = new vscode.MarkdownString(docParts.join('\n'));
-        item.detail = `→ ${roleInfo?.role_class?.name} | ${roleInfo?.role_class_alt?.name}`;
+        item.detail = `→ ${roleInfo?.role_class?.name} | ${roleInfo?.role_class_alt?.name}${assoc.is_custom ? ' (custom)' : ''}`;
         item.filterText = `${assoc.perceived_name} | ${assoc.perceived_name_alt}`;
         item.sortText = `${assoc.perceived_name} | ${assoc.perceived_name_alt}`;
 
@@ -690,17 +1008,31 @@ class VertecHoverProvider implements vscode.HoverProvider {
         // Case 1: Hover over type hint (e.g., "# type: Projekt")
         const typeHintMatch = line.match(/#\s*type:\s*(\w+)/);
         if (typeHintMatch && typeHintMatch[1] === word) {
-            return this.createClassHover(word);
+            return this.createClassHover(document, word);
         }
 
-        // Case 2: Hover over variable or property access (e.g., "projekt" or "projekt.kunde")
         const textBeforeWord = line.substring(0, wordRange.start.character);
         const textAfterWord = line.substring(wordRange.end.character);
 
+        // Hover over a class of an annotation (e.g., "projekt: Projekt" or "-> List[Leistung]")
+        if (/^[A-Z]/.test(word) && /(?:->|:)\s*(?:[\w.]+\[\s*)*['"]?$/.test(textBeforeWord)) {
+            const classHover = await this.createClassHover(document, word);
+            if (classHover) {
+                return classHover;
+            }
+        }
+
+        // Case 2: Hover over variable or property access (e.g., "projekt" or "projekt.kunde")
+
+        // Check if this is a vtcapp function (vtcapp.word)
+        const vtcappFunction = /(?<![\w.])vtcapp\.$/.test(textBeforeWord) ? VTCAPP_FUNCTIONS.get(word) : undefined;
+        if (vtcappFunction) {
+            return new vscode.Hover(new vscode.MarkdownString(buildVtcappDocumentation(vtcappFunction)));
+        }
+
         // Check if this is a property access (something.word)
-        const beforeMatch = textBeforeWord.match(/(\w+(?:\.\w+)*)\.$/);
-        if (beforeMatch) {
-            return this.createPropertyHover(document, position, beforeMatch[1], word);
+        if (textBeforeWord.endsWith('.')) {
+            return this.createPropertyHover(document, position, textBeforeWord.slice(0, -1), word);
         }
 
         // Check if this is the start of a chain (word.something)
@@ -721,13 +1053,13 @@ class VertecHoverProvider implements vscode.HoverProvider {
     /**
      * Creates hover info for a class name in a type hint
      */
-    private async createClassHover(className: string): Promise<vscode.Hover | undefined> {
-        const classes = await VertecModelHelper.getClasses();
-        if (!classes) {
+    private async createClassHover(document: vscode.TextDocument, className: string): Promise<vscode.Hover | undefined> {
+        const index = await VertecModelHelper.getIndex(document);
+        if (!index) {
             return undefined;
         }
 
-        const cls = VertecModelHelper.findClass(classes, className);
+        const cls = index.findClass(className);
         if (!cls) {
             return undefined;
         }
@@ -752,7 +1084,7 @@ class VertecHoverProvider implements vscode.HoverProvider {
             return undefined;
         }
 
-        return this.createClassHover(className);
+        return this.createClassHover(document, className);
     }
 
     /**
@@ -761,16 +1093,16 @@ class VertecHoverProvider implements vscode.HoverProvider {
     private async createPropertyHover(
         document: vscode.TextDocument,
         position: vscode.Position,
-        basePath: string,
+        textBeforeDot: string,
         propertyName: string
     ): Promise<vscode.Hover | undefined> {
-        const classes = await VertecModelHelper.getClasses();
-        if (!classes) {
+        const index = await VertecModelHelper.getIndex(document);
+        if (!index) {
             return undefined;
         }
 
-        // Resolve the base path to get current class
-        const { className: currentClassName, isList } = await this.completionProvider['resolveChain'](document, position, basePath);
+        // Resolve the expression before the dot to get current class
+        const { className: currentClassName, isList } = await this.completionProvider.resolveExpressionBefore(document, position, textBeforeDot);
 
         // Cannot show hover if we're on a list
         if (isList || !currentClassName) {
@@ -778,31 +1110,23 @@ class VertecHoverProvider implements vscode.HoverProvider {
         }
 
         // Now find the property in the current class
-        const currentClass = VertecModelHelper.findClass(classes, currentClassName);
+        const currentClass = index.findClass(currentClassName);
         if (!currentClass) {
             return undefined;
         }
 
-        const { members, associations } = resolveInheritance(currentClass, classes);
-
         // Check if it's a member
-        const member = members.find(m =>
-            m.name.toLowerCase() === propertyName.toLowerCase() ||
-            m.name_alt.toLowerCase() === propertyName.toLowerCase()
-        );
+        const member = index.findMember(currentClass, propertyName);
 
         if (member) {
             return this.createMemberHover(member, currentClass);
         }
 
         // Check if it's an association
-        const association = associations.find(a =>
-            a.perceived_name.toLowerCase() === propertyName.toLowerCase() ||
-            a.perceived_name_alt?.toLowerCase() === propertyName.toLowerCase()
-        );
+        const association = index.findAssociation(currentClass, propertyName);
 
         if (association) {
-            return this.createAssociationHover(association, currentClass, classes);
+            return this.createAssociationHover(association, currentClass, index.classes);
         }
 
         return undefined;
@@ -835,6 +1159,36 @@ class VertecHoverProvider implements vscode.HoverProvider {
     }
 }
 
+let completionProvider: VertecCompletionProvider | null = null;
+
+/**
+ * Returns the shared completion provider, which also resolves chains for other features.
+ */
+function getCompletionProvider(): VertecCompletionProvider {
+    completionProvider ??= new VertecCompletionProvider();
+    return completionProvider;
+}
+
+/**
+ * Resolves the member and association accesses of a chain expression like "projekt.phasen[0].code"
+ * with the model of the document.
+ */
+export function resolveChainAccesses(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    chain: string
+): Promise<ChainAccess[]> {
+    return getCompletionProvider().resolveChainAccesses(document, position, chain);
+}
+
+/**
+ * Resolves the class of the expression at a position with the model of the document,
+ * e.g. the owning class of the member under the cursor.
+ */
+export function resolveClassAtPosition(document: vscode.TextDocument, position: vscode.Position): Promise<string | null> {
+    return getCompletionProvider().resolveClassAtPosition(document, position);
+}
+
 /**
  * Activates hover support
  */
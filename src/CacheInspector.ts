@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import {
+    CacheStatus,
+    getCacheStatuses,
+    getModelCacheStatus,
+    getCacheContent,
+    reloadCache,
+    clearCache,
+    onDidChangeCacheStatus
+} from './DataProvider';
+import { getActiveModelProfile, getModelProfileLabel, onDidChangeActiveModelProfile } from './ModelProfiles';
+import { createNonce, escapeHtml } from './WebviewHtml';
+
+// The cache age in the status bar is updated periodically, as it changes without any event.
+const STATUS_BAR_UPDATE_INTERVAL_MS = 60 * 1000;
+
+let statusBarItem: vscode.StatusBarItem | null = null;
+let panel: vscode.WebviewPanel | null = null;
+
+/**
+ * Formats the age of a timestamp, e.g. "5 minutes" or "3 days".
+ */
+function formatAge(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / (60 * 1000));
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+    }
+
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * Formats a timestamp as local date and time.
+ */
+function formatDate(timestamp: number | null): string {
+    return timestamp ? new Date(timestamp).toLocaleString() : '-/-';
+}
+
+/**
+ * Updates the status bar item with the age of the model cache of the active profile.
+ */
+async function updateStatusBarItem(): Promise<void> {
+    if (!statusBarItem) {
+        return;
+    }
+
+    const profile = getActiveModelProfile();
+    const status = await getModelCacheStatus(profile);
+
+    if (!status.metadata) {
+        statusBarItem.text = '$(database) not loaded';
+        statusBarItem.tooltip = `Vertec model "${getModelProfileLabel(profile)}" is not loaded yet.\nClick to show the cache status.`;
+        return;
+    }
+
+    const icon = status.state === 'fresh' ? '$(database)' : '$(sync)';
+    statusBarItem.text = `${icon} ${formatAge(status.metadata.timestamp)}`;
+    statusBarItem.tooltip = [
+        `Vertec model "${getModelProfileLabel(profile)}"`,
+        `Loaded: ${formatDate(status.metadata.timestamp)} (${status.metadata.entryCount} classes)`,
+        `Source: ${status.metadata.sourceUrl}`,
+        status.state === 'fresh' ? `Refresh after: ${formatDate(status.expiresAt)}` : 'Outdated, refreshed on next use.',
+        'Click to show the cache status.'
+    ].join('\n');
+}
+
+/**
+ * Generates the HTML content of the cache status view. Only the script with the nonce may run,
+ * the cache ids (which contain profile names from the settings) are passed as data attributes.
+ */
+function getCacheStatusHtml(statuses: CacheStatus[], nonce: string): string {
+    const stateLabels: Record<CacheStatus['state'], string> = {
+        fresh: 'Up to date',
+        stale: 'Outdated',
+        expired: 'Expired',
+        empty: 'Not loaded'
+    };
+
+    const rows = statuses.map(status => {
+        const id = escapeHtml(status.id);
+        const metadata = status.metadata;
+
+        return `<tr>
+                    <td>${escapeHtml(status.label)}</td>
+                    <td><span class="badge badge-${status.state}">${stateLabels[status.state]}</span></td>
+                    <td>${metadata ? `${formatDate(metadata.timestamp)}<br><small>${formatAge(metadata.timestamp)}</small>` : '-/-'}</td>
+                    <td>${formatDate(status.expiresAt)}</td>
+                    <td>${formatDate(status.staleUntil)}</td>
+                    <td>${metadata ? metadata.entryCount : '-/-'}</td>
+                    <td>${metadata ? escapeHtml(metadata.languages.join(', ')) || '-/-' : '-/-'}</td>
+                    <td class="source">${metadata ? escapeHtml(metadata.sourceUrl) : '-/-'}</td>
+                    <td class="actions">
+                        <button data-command="reload" data-id="${id}">Reload</button>
+                        <button data-command="clear" data-id="${id}" ${metadata ? '' : 'disabled'}>Clear</button>
+                        <button data-command="export" data-id="${id}" ${metadata ? '' : 'disabled'}>Export</button>
+                    </td>
+                </tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Vertec Cache Status</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        h1 {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 10px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 15px 0;
+        }
+        th, td {
+            text-align: left;
+            vertical-align: top;
+            padding: 8px 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+        small, .source {
+            color: var(--vscode-descriptionForeground);
+        }
+        .source {
+            word-break: break-all;
+        }
+        .actions {
+            white-space: nowrap;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 10px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .badge {
+            display: inline-block;
+            padding: 2px 8px;
+            border-radius: 3px;
+            font-size: 0.85em;
+            color: white;
+        }
+        .badge-fresh {
+            background-color: #28a745;
+        }
+        .badge-stale {
+            background-color: #d39e00;
+        }
+        .badge-expired, .badge-empty {
+            background-color: #6c757d;
+        }
+    </style>
+</head>
+<body>
+    <h1>Vertec Cache Status</h1>
+    <table>
+        <thead>
+            <tr>
+                <th>Cache</th>
+                <th>State</th>
+                <th>Loaded</th>
+                <th>Refresh after</th>
+                <th>Discard after</th>
+                <th>Entries</th>
+                <th>Languages</th>
+                <th>Source</th>
+                <th></th>
+            </tr>
+        </thead>
+        <tbody>
+            ${rows}
+        </tbody>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        document.querySelectorAll('button[data-command]').forEach(button => {
+            button.addEventListener('click', () => {
+                vscode.postMessage({ command: button.dataset.command, id: button.dataset.id });
+            });
+        });
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Writes the cached data together with its metadata to a JSON file chosen by the user.
+ */
+async function exportCache(id: string): Promise<void> {
+    const content = await getCacheContent(id);
+    if (!content) {
+        vscode.window.showWarningMessage('The cache is empty, nothing to export.');
+        return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`${id.replace(/[^a-z0-9.-]+/gi, '-')}.json`),
+        filters: { 'JSON': ['json'] },
+        saveLabel: 'Export cache'
+    });
+    if (!target) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(content, null, 2), 'utf8'));
+    vscode.window.showInformationMessage(`Exported ${content.data.length} entries to ${target.fsPath}.`);
+}
+
+/**
+ * Updates the content of the cache status view, if it is open.
+ */
+async function updatePanel(): Promise<void> {
+    if (panel) {
+        panel.webview.html = getCacheStatusHtml(await getCacheStatuses(), createNonce());
+    }
+}
+
+/**
+ * Shows the status of all caches in a web view panel, with actions to reload, clear or export each cache.
+ */
+export async function showCacheStatus() {
+    try {
+        if (panel) {
+            panel.reveal();
+            await updatePanel();
+            return;
+        }
+
+        panel = vscode.window.createWebviewPanel(
+            'vertecCacheStatus',
+            'Vertec Cache Status',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true
+            }
+        );
+
+        panel.webview.onDidReceiveMessage(async message => {
+            try {
+                if (message.command === 'reload') {
+                    await reloadCache(message.id);
+                } else if (message.command === 'clear') {
+                    clearCache(message.id);
+                } else if (message.command === 'export') {
+                    await exportCache(message.id);
+                }
+            } catch (error) {
+                console.error('Error in the cache status view:', error);
+                vscode.window.showErrorMessage('An error occured while updating the cache.');
+            }
+        });
+
+        panel.onDidDispose(() => {
+            panel = null;
+        });
+
+        await updatePanel();
+
+    } catch (error) {
+        console.error('Error showing the cache status:', error);
+        vscode.window.showErrorMessage('An error occured while loading the cache status.');
+    }
+}
+
+/**
+ * Activates the cache status bar item and keeps it and the cache status view up to date.
+ */
+export function activateCacheInspector(context: vscode.ExtensionContext): void {
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    statusBarItem.command = 'vertec.cache.status';
+    statusBarItem.show();
+
+    const update = () => {
+        updateStatusBarItem();
+        updatePanel();
+    };
+    const timer = setInterval(() => updateStatusBarItem(), STATUS_BAR_UPDATE_INTERVAL_MS);
+
+    context.subscriptions.push(
+        statusBarItem,
+        { dispose: () => clearInterval(timer) },
+        onDidChangeCacheStatus(update),
+        onDidChangeActiveModelProfile(() => updateStatusBarItem()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('vertecVscodeExtension')) {
+                update();
+            }
+        })
+    );
+
+    updateStatusBarItem();
+}
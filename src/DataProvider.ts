@@ -1,5 +1,16 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
 import axios from 'axios';
+import { ModelProfile, DEFAULT_PROFILE_NAME, getActiveModelProfile, getDefaultModelUrl, getModelProfileLabel, getModelProfiles } from './ModelProfiles';
+import { RequestConfigError, httpGet } from './HttpClient';
+import { applyModelOverlay, onDidChangeModelOverlay } from './ModelOverlay';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
 
 const MEMBERTYPE_TO_COMPLETIONKIND: Record<string, vscode.CompletionItemKind> = {
     'class': vscode.CompletionItemKind.Class,
@@ -19,7 +30,7 @@ interface ModelApiResponse<T> {
     results: T[];
 }
 
-interface VertecMember {
+export interface VertecMember {
     name: string;
     name_alt: string;
     member_type?: string;
@@ -28,9 +39,10 @@ interface VertecMember {
     is_nullable?: boolean;
     is_derived?: boolean;
     is_indexed?: boolean;
+    is_custom?: boolean;    // Defined in the workspace model overlay.
 }
 
-interface VertecAssociation {
+export interface VertecAssociation {
     name: string;
     name_alt: string;
     perceived_name: string;
@@ -56,9 +68,10 @@ interface VertecAssociation {
     is_role2_hidden?: boolean;
     role1_description?: string;
     role2_description?: string;
+    is_custom?: boolean;    // Defined in the workspace model overlay.
 }
 
-interface VertecClassRef {
+export interface VertecClassRef {
     name: string;
     class_id: number;
 }
@@ -73,6 +86,7 @@ export interface VertecClass {
     is_persistent?: boolean,
     is_hidden?: boolean,
     description?: string,
+    is_custom?: boolean,    // Defined in the workspace model overlay.
     members?: VertecMember[];
     associations?: VertecAssociation[];
 }
@@ -103,63 +117,207 @@ export interface VertecTranslation {
 }
 
 
+/**
+ * Metadata persisted next to the data of each cache.
+ */
+export interface CacheMetadata {
+    timestamp: number;          // Time of the download.
+    sourceUrl: string;          // URL or file the data was loaded from.
+    languages: string[];        // Language variants contained in the data.
+    schemaVersion: number;      // Version of the data structure, see DataCache constructor.
+    entryCount: number;         // Number of cached entries.
+    extensionVersion: string;   // Version of the extension which loaded the data.
+}
+
+
+/**
+ * State of a cache as shown in the cache status view.
+ */
+export interface CacheStatus {
+    id: string;                 // 'translations' or 'model:<cache key>', see getModelCacheKey.
+    label: string;
+    metadata: CacheMetadata | null;
+    state: 'fresh' | 'stale' | 'expired' | 'empty';
+    expiresAt: number | null;   // End of the cache lifetime, the data is refreshed afterwards.
+    staleUntil: number | null;  // End of the max stale age, the data is discarded afterwards.
+}
+
+
 /*
-* Generic cache implementation with an in memory and gloablState cache layer.
-* Each cache instance is identified by a unique key.
+* Generic cache implementation with an in memory and a file cache layer.
+* The data is stored as compressed JSON file in the global storage of the extension,
+* only the small metadata and validators are kept in the globalState.
+* Each cache instance is identified by a unique key and stores its own metadata.
 * The cache duration can be configured in the extension settings and defaults to 30 days.
+* After the cache duration, the data is still served as stale data for the configured max stale age,
+* so it can be refreshed in the background.
+* The cache is invalidated if the source url or the schema version changes.
 */
 class DataCache<T> {
     private context: vscode.ExtensionContext | null = null;
-    // private cache: Map<string, { data: T[]; timestamp: number }> = new Map(); // TODO
-    private cache: Map<string, { data: T[]; timestamp: number }> = new Map<string, { data: T[]; timestamp: number }>();
+    private cache: Map<string, { data: T[]; metadata: CacheMetadata }> = new Map<string, { data: T[]; metadata: CacheMetadata }>();
     private cacheDataKey: string;
-    private cacheTimestampKey: string;
+    private cacheMetadataKey: string;
+    private cacheValidatorsKey: string;
+    private schemaVersion: number;
     private cacheLifetimeDays: number;
+    private maxStaleDays: number;
+    private loading: Promise<void> = Promise.resolve();
+    private writing: Promise<void> = Promise.resolve();
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+    private getLegacySource?: (data: T[]) => { sourceUrl: string; languages: string[] };
+
+    /**
+     * Fires when the cached data or its metadata changed.
+     */
+    readonly onDidChange = this.onDidChangeEmitter.event;
 
-    constructor(cacheDataKey: string, cacheTimestampKey: string, cacheLifetimeDays: number) {
+    /**
+     * @param getLegacySource Returns the source of data cached by older versions without metadata,
+     * which is migrated only if given.
+     */
+    constructor(
+        cacheDataKey: string,
+        schemaVersion: number,
+        cacheLifetimeDays: number,
+        maxStaleDays = 0,
+        getLegacySource?: (data: T[]) => { sourceUrl: string; languages: string[] }
+    ) {
         this.cacheDataKey = cacheDataKey;
-        this.cacheTimestampKey = cacheTimestampKey;
+        this.cacheMetadataKey = `${cacheDataKey}.metadata`;
+        this.cacheValidatorsKey = `${cacheDataKey}.validators`;
+        this.schemaVersion = schemaVersion;
         this.cacheLifetimeDays = cacheLifetimeDays;
+        this.maxStaleDays = maxStaleDays;
+        this.getLegacySource = getLegacySource;
     }
 
     /**
-     * Initializes the cache with Extension Context for persistent storage
+     * Checks if data with the given timestamp is fresh, stale (still usable, but should be refreshed) or expired.
+     */
+    private getAgeState(timestamp: number): 'fresh' | 'stale' | 'expired' {
+        const age = Date.now() - timestamp;
+        const maxAge = this.cacheLifetimeDays * 24 * 60 * 60 * 1000;
+        const maxStaleAge = this.maxStaleDays * 24 * 60 * 60 * 1000;
+
+        if (age <= maxAge) {
+            return 'fresh';
+        }
+        return age <= maxAge + maxStaleAge ? 'stale' : 'expired';
+    }
+
+    /**
+     * Initializes the cache with Extension Context for persistent storage.
+     * The cache file is loaded asynchronously, see ready().
      */
     initialize(context: vscode.ExtensionContext): void {
         this.context = context;
-        this.loadFromGlobalState();
+        this.loading = this.loadFromStorage().then(() => this.onDidChangeEmitter.fire());
+    }
+
+    /**
+     * Resolves when the cached data is loaded from the file storage.
+     */
+    ready(): Promise<void> {
+        return this.loading;
     }
 
     /**
-     * Loads the cache from globalState if it exists and is not expired.
-     * Otherwise, clears the globalState cache.
+     * Returns the path of a cache file in the global storage of the extension.
      */
-    private loadFromGlobalState(): void {
+    private getFilePath(suffix = ''): string | null {
         if (!this.context) {
+            return null;
+        }
+
+        return path.join(this.context.globalStorageUri.fsPath, 'cache', `${this.cacheDataKey}${suffix}.json.gz`);
+    }
+
+    /**
+     * Reads and decompresses a JSON file. Returns undefined if the file does not exist.
+     */
+    private async readFile<V>(filePath: string): Promise<V | undefined> {
+        try {
+            const compressed = await fs.promises.readFile(filePath);
+            return JSON.parse((await gunzip(compressed)).toString('utf8')) as V;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Compresses and writes a JSON file atomically: the data is written to a temporary file first,
+     * which then replaces the cache file. Writes are serialized, so the last write wins.
+     */
+    private writeFile(filePath: string, value: unknown): Promise<void> {
+        return this.enqueueWrite(async () => {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+            await fs.promises.writeFile(tempPath, await gzip(Buffer.from(JSON.stringify(value), 'utf8')));
+            await fs.promises.rename(tempPath, filePath);
+        });
+    }
+
+    /**
+     * Deletes a cache file, if it exists.
+     */
+    private deleteFile(filePath: string): Promise<void> {
+        return this.enqueueWrite(() => fs.promises.rm(filePath, { force: true }));
+    }
+
+    /**
+     * Runs a file operation after the previous ones. A failed operation is reported to its caller only,
+     * the following operations still run.
+     */
+    private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+        const result = this.writing.then(operation);
+        this.writing = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Loads the cache from the file storage if it exists, is not expired (stale data is kept)
+     * and matches the current schema version. Otherwise, clears the cache.
+     */
+    private async loadFromStorage(): Promise<void> {
+        const filePath = this.getFilePath();
+        if (!this.context || !filePath) {
             return;
         }
 
         try {
-            const cachedData = this.context.globalState.get<T[]>(this.cacheDataKey);
-            const timestamp = this.context.globalState.get<number>(this.cacheTimestampKey);
-
-            if (cachedData && timestamp) {
-                const age = Date.now() - timestamp;
-                const maxAge = this.cacheLifetimeDays * 24 * 60 * 60 * 1000;
-                const isExpired = age > maxAge;
-
-                // If the cache data is still valid, load it into the in-memory cache.
-                // Else, clear the globalState cache.
-                if (!isExpired) {
-                    this.cache.set(this.cacheDataKey, {
-                        data: cachedData,
-                        timestamp: timestamp
-                    });
-                    console.log('Data loaded from cache.');
-                } else {
-                    console.log('Cached data expired, clearing data.');
-                    this.clearGlobalState();
-                }
+            await this.migrateFromGlobalState(filePath);
+
+            const metadata = this.context.globalState.get<CacheMetadata>(this.cacheMetadataKey);
+            if (!metadata) {
+                return;
+            }
+
+            // Data with another schema can't be used.
+            if (metadata.schemaVersion !== this.schemaVersion) {
+                console.log('Cached data has an outdated schema, clearing data.');
+                await this.clearStorage();
+                return;
+            }
+
+            // If the cache data is still valid, load it into the in-memory cache.
+            // Else, clear the stored cache.
+            if (this.getAgeState(metadata.timestamp) === 'expired') {
+                console.log('Cached data expired, clearing data.');
+                await this.clearStorage();
+                return;
+            }
+
+            const cachedData = await this.readFile<T[]>(filePath);
+            if (cachedData) {
+                this.cache.set(this.cacheDataKey, {
+                    data: cachedData,
+                    metadata: metadata
+                });
+                console.log('Data loaded from cache.');
             }
         } catch (error) {
             console.error('Error loading data from cache:', error);
@@ -167,16 +325,53 @@ class DataCache<T> {
     }
 
     /**
-     * Saves the data into the globalState cache with the current timestamp.
+     * Moves data cached in the globalState by older versions into the file storage.
      */
-    private async saveToGlobalState(data: T[], timestamp: number): Promise<void> {
+    private async migrateFromGlobalState(filePath: string): Promise<void> {
         if (!this.context) {
             return;
         }
 
+        const legacyData = this.context.globalState.get<T[]>(this.cacheDataKey);
+        if (!legacyData) {
+            return;
+        }
+
+        // Data without metadata stems from versions with a shared timestamp, its source is the configured one.
+        let metadata = this.context.globalState.get<CacheMetadata>(this.cacheMetadataKey);
+        const legacyTimestamp = this.context.globalState.get<number>(LEGACY_CACHE_TIMESTAMP_KEY);
+        if (!metadata && legacyTimestamp && this.getLegacySource) {
+            metadata = {
+                timestamp: legacyTimestamp,
+                ...this.getLegacySource(legacyData),
+                schemaVersion: this.schemaVersion,
+                entryCount: legacyData.length,
+                extensionVersion: this.context.extension.packageJSON.version ?? ''
+            };
+        }
+
+        if (metadata) {
+            console.log('Moving cached data from globalState to file storage.');
+            await this.writeFile(filePath, legacyData);
+            await this.context.globalState.update(this.cacheMetadataKey, metadata);
+        }
+
+        await this.context.globalState.update(this.cacheDataKey, undefined);
+        await this.context.globalState.update(`${this.cacheDataKey}.partial`, undefined);
+    }
+
+    /**
+     * Saves the data into the file storage and its metadata into the globalState.
+     */
+    private async saveToStorage(data: T[], metadata: CacheMetadata): Promise<void> {
+        const filePath = this.getFilePath();
+        if (!this.context || !filePath) {
+            return;
+        }
+
         try {
-            await this.context.globalState.update(this.cacheDataKey, data);
-            await this.context.globalState.update(this.cacheTimestampKey, timestamp);
+            await this.writeFile(filePath, data);
+            await this.context.globalState.update(this.cacheMetadataKey, metadata);
             console.log('Data saved to cache');
         } catch (error) {
             console.error('Error saving data to cache:', error);
@@ -184,81 +379,416 @@ class DataCache<T> {
     }
 
     /**
-     * Cleas the the globalState cache entries for model data and timestamp.
+     * Cleas the stored cache files and the globalState entries for metadata and validators.
      */
-    private async clearGlobalState(): Promise<void> {
-        if (!this.context) {
+    private async clearStorage(): Promise<void> {
+        const filePath = this.getFilePath();
+        const partialFilePath = this.getFilePath('.partial');
+        if (!this.context || !filePath || !partialFilePath) {
             return;
         }
 
         try {
-            await this.context.globalState.update(this.cacheDataKey, undefined);
-            await this.context.globalState.update(this.cacheTimestampKey, undefined);
+            await this.context.globalState.update(this.cacheMetadataKey, undefined);
+            await this.context.globalState.update(this.cacheValidatorsKey, undefined);
+            await this.deleteFile(filePath);
+            await this.deleteFile(partialFilePath);
             console.log('Cache cleared');
         } catch (error) {
             console.error('Error clearing cache:', error);
         }
     }
 
-    get(): T[] | null {
+    /**
+     * Returns the cached data, if it was loaded from the given source and is not expired.
+     */
+    get(sourceUrl: string): T[] | null {
         const cached = this.cache.get(this.cacheDataKey);
         if (!cached) {
             return null;
         }
 
-        const age = Date.now() - cached.timestamp;
-        const maxAge = this.cacheLifetimeDays * 24 * 60 * 60 * 1000;
-        const isExpired = age > maxAge;
+        if (cached.metadata.sourceUrl !== sourceUrl) {
+            console.log('Source url changed, clearing cache.');
+            this.clear();
+            return null;
+        }
+
+        const isExpired = this.getAgeState(cached.metadata.timestamp) === 'expired';
         if (isExpired) {
-            this.cache.delete(this.cacheDataKey);
-            this.clearGlobalState();
+            console.log('Cached data expired, clearing data.');
+            this.clear();
             return null;
         }
 
         return cached.data;
     }
 
-    set(data: T[]): void {
-        const timestamp = Date.now();
+    /**
+     * Returns the metadata of the cached data.
+     */
+    getMetadata(): CacheMetadata | null {
+        return this.cache.get(this.cacheDataKey)?.metadata ?? null;
+    }
+
+    /**
+     * Returns the age state and the expiry dates of the cached data.
+     */
+    getStatus(): Pick<CacheStatus, 'metadata' | 'state' | 'expiresAt' | 'staleUntil'> {
+        const metadata = this.getMetadata();
+        if (!metadata) {
+            return { metadata: null, state: 'empty', expiresAt: null, staleUntil: null };
+        }
+
+        const expiresAt = metadata.timestamp + this.cacheLifetimeDays * 24 * 60 * 60 * 1000;
+        return {
+            metadata,
+            state: this.getAgeState(metadata.timestamp),
+            expiresAt,
+            staleUntil: expiresAt + this.maxStaleDays * 24 * 60 * 60 * 1000
+        };
+    }
+
+    /**
+     * Checks if the cached data is older than the cache lifetime and should be refreshed.
+     */
+    isStale(): boolean {
+        const cached = this.cache.get(this.cacheDataKey);
+        return !!cached && this.getAgeState(cached.metadata.timestamp) !== 'fresh';
+    }
+
+    /**
+     * Stores the data together with its metadata.
+     */
+    set(data: T[], sourceUrl: string, languages: string[]): void {
+        const metadata: CacheMetadata = {
+            timestamp: Date.now(),
+            sourceUrl,
+            languages,
+            schemaVersion: this.schemaVersion,
+            entryCount: data.length,
+            extensionVersion: this.context?.extension.packageJSON.version ?? ''
+        };
 
         this.cache.set(this.cacheDataKey, {
             data,
-            timestamp
+            metadata
         });
-        this.saveToGlobalState(data, timestamp);
+        this.saveToStorage(data, metadata);
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Marks the cached data as fresh without rewriting it, e.g. after the source reported no changes.
+     */
+    touch(): void {
+        const cached = this.cache.get(this.cacheDataKey);
+        if (!cached) {
+            return;
+        }
+
+        cached.metadata = {
+            ...cached.metadata,
+            timestamp: Date.now()
+        };
+        this.context?.globalState.update(this.cacheMetadataKey, cached.metadata);
+        this.onDidChangeEmitter.fire();
     }
 
     clear(): void {
         this.cache.clear();
-        this.clearGlobalState();
+        this.clearStorage().catch(error => console.error('Error clearing cache:', error));
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Returns the validators (ETag / Last-Modified) stored next to the cached data.
+     */
+    getValidators<V>(): V | undefined {
+        return this.context?.globalState.get<V>(this.cacheValidatorsKey);
+    }
+
+    /**
+     * Stores the validators (ETag / Last-Modified) next to the cached data.
+     */
+    async setValidators<V>(validators: V): Promise<void> {
+        if (!this.context) {
+            return;
+        }
+
+        try {
+            await this.context.globalState.update(this.cacheValidatorsKey, validators);
+        } catch (error) {
+            console.error('Error saving cache validators:', error);
+        }
+    }
+
+    /**
+     * Returns the progress of an interrupted download.
+     */
+    async getPartial<P>(): Promise<P | undefined> {
+        const partialFilePath = this.getFilePath('.partial');
+        if (!partialFilePath) {
+            return undefined;
+        }
+
+        try {
+            return await this.readFile<P>(partialFilePath);
+        } catch (error) {
+            console.error('Error loading the download progress:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Stores the progress of an interrupted download, undefined removes it.
+     */
+    async setPartial<P>(partial: P | undefined): Promise<void> {
+        const partialFilePath = this.getFilePath('.partial');
+        if (!partialFilePath) {
+            return;
+        }
+
+        try {
+            if (partial === undefined) {
+                await this.deleteFile(partialFilePath);
+            } else {
+                await this.writeFile(partialFilePath, partial);
+            }
+        } catch (error) {
+            console.error('Error saving the download progress:', error);
+        }
     }
 }
 
 
 const CACHE_MODEL_KEY = 'vertec.cache.modeldata';
 const CACHE_TRANSLATION_KEY = 'vertec.cache.translationdata';
-const CACHE_TIMESTAMP_KEY = 'vertec.cache.timestamp';
+// Shared timestamp of older versions, replaced by the metadata of each cache.
+const LEGACY_CACHE_TIMESTAMP_KEY = 'vertec.cache.timestamp';
 const CACHE_LIFETIME = vscode.workspace.getConfiguration("vertecVscodeExtension").get("CacheLifetime", 30);
-const MODEL_CACHE = new DataCache<unknown>(
-    CACHE_MODEL_KEY,
-    CACHE_TIMESTAMP_KEY,
-    CACHE_LIFETIME
-);
+const CACHE_MAX_STALE_AGE = vscode.workspace.getConfiguration("vertecVscodeExtension").get("MaxStaleAge", 7);
+
+// One model cache per profile and model url (see getModelCacheKey), created on first use.
+const MODEL_CACHES = new Map<string, { cache: DataCache<unknown>; profile: ModelProfile }>();
+
+// Increase the schema versions if the structure of the cached data changes,
+// e.g. if normalizeVertecClass or mergeEnglishPerceivedNames produce different data.
+const MODEL_SCHEMA_VERSION = 1;
+const TRANSLATIONS_SCHEMA_VERSION = 1;
 
 const TRANSLATIONS_CACHE = new DataCache<unknown>(
     CACHE_TRANSLATION_KEY,
-    CACHE_TIMESTAMP_KEY,
-    CACHE_LIFETIME
+    TRANSLATIONS_SCHEMA_VERSION,
+    CACHE_LIFETIME,
+    CACHE_MAX_STALE_AGE,
+    data => ({ sourceUrl: getTranslationsUrl(), languages: getTranslationLanguages(data) })
 );
 
+let extensionContext: vscode.ExtensionContext | null = null;
+
+// Running background refreshes, identified by the cache key.
+const BACKGROUND_REFRESHES = new Map<string, Promise<void>>();
+
+const onDidChangeModelEmitter = new vscode.EventEmitter<ModelProfile>();
+const onDidChangeTranslationsEmitter = new vscode.EventEmitter<void>();
+const onDidChangeCacheStatusEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires when new model data of a profile replaced previously cached data.
+ */
+export const onDidChangeModel = onDidChangeModelEmitter.event;
+
+/**
+ * Fires when new translation data replaced previously cached data.
+ */
+export const onDidChangeTranslations = onDidChangeTranslationsEmitter.event;
+
+/**
+ * Fires when any cache was loaded, updated or cleared.
+ */
+export const onDidChangeCacheStatus = onDidChangeCacheStatusEmitter.event;
+
+const CACHE_ID_TRANSLATIONS = 'translations';
+const CACHE_ID_MODEL_PREFIX = 'model:';
+
 
 /**
- * Initializes both caches with the given extension context.
+ * Initializes the caches with the given extension context.
  * Must be called in the activate function of the extension to enable caching
  */
 export function initializeCaches(context: vscode.ExtensionContext): void {
-    MODEL_CACHE.initialize(context);
+    extensionContext = context;
+    context.subscriptions.push(
+        onDidChangeModelEmitter,
+        onDidChangeTranslationsEmitter,
+        onDidChangeCacheStatusEmitter,
+        TRANSLATIONS_CACHE.onDidChange(() => onDidChangeCacheStatusEmitter.fire()),
+        // The merged model of each loaded profile changes with the overlay.
+        onDidChangeModelOverlay(() => {
+            MODEL_CACHES.forEach(({ cache, profile }) => {
+                if (cache.getMetadata()) {
+                    onDidChangeModelEmitter.fire(profile);
+                }
+            });
+        })
+    );
+    MODEL_CACHES.forEach(({ cache }) => cache.initialize(context));
     TRANSLATIONS_CACHE.initialize(context);
+
+    // The caches of older versions are migrated with the shared timestamp, the model cache is the one of the default profile.
+    const defaultModelCache = getModelCache({ name: DEFAULT_PROFILE_NAME, url: getDefaultModelUrl() });
+    Promise.all([defaultModelCache.ready(), TRANSLATIONS_CACHE.ready()])
+        .then(() => context.globalState.update(LEGACY_CACHE_TIMESTAMP_KEY, undefined));
+}
+
+/**
+ * Returns the key of the model cache of a profile. Profiles of different workspace folders can share a name
+ * but point to different models, so the key contains the model url. The default profile with the model url
+ * of the workspace settings keeps the original cache key.
+ */
+function getModelCacheKey(profile: ModelProfile): string {
+    if (profile.name === DEFAULT_PROFILE_NAME && profile.url === getDefaultModelUrl()) {
+        return CACHE_MODEL_KEY;
+    }
+
+    const urlHash = crypto.createHash('sha256').update(profile.url).digest('hex').substring(0, 12);
+    return `${CACHE_MODEL_KEY}.${profile.name.replace(/[^\w.-]+/g, '_')}.${urlHash}`;
+}
+
+/**
+ * Returns the model cache of a profile, see getModelCacheKey.
+ */
+function getModelCache(profile: ModelProfile): DataCache<unknown> {
+    const key = getModelCacheKey(profile);
+    let entry = MODEL_CACHES.get(key);
+    if (!entry) {
+        const cache = new DataCache<unknown>(
+            key,
+            MODEL_SCHEMA_VERSION,
+            CACHE_LIFETIME,
+            CACHE_MAX_STALE_AGE,
+            // Older versions only had the model of the default profile, which was loaded in german and english.
+            key === CACHE_MODEL_KEY ? () => ({ sourceUrl: profile.url, languages: ['de', 'en'] }) : undefined
+        );
+        cache.onDidChange(() => onDidChangeCacheStatusEmitter.fire());
+        if (extensionContext) {
+            cache.initialize(extensionContext);
+        }
+        entry = { cache, profile };
+        MODEL_CACHES.set(key, entry);
+    }
+
+    return entry.cache;
+}
+
+/**
+ * Returns the cache with the given id (see CacheStatus) and the profile of a model cache.
+ */
+function findCache(id: string): { cache: DataCache<unknown>; profile: ModelProfile | null } | null {
+    if (id === CACHE_ID_TRANSLATIONS) {
+        return { cache: TRANSLATIONS_CACHE, profile: null };
+    }
+
+    const entry = id.startsWith(CACHE_ID_MODEL_PREFIX)
+        ? MODEL_CACHES.get(id.substring(CACHE_ID_MODEL_PREFIX.length))
+        : undefined;
+
+    return entry ? { cache: entry.cache, profile: entry.profile } : null;
+}
+
+/**
+ * Returns the status of the model cache of each profile and of the translations cache.
+ */
+export async function getCacheStatuses(): Promise<CacheStatus[]> {
+    const statuses: CacheStatus[] = [];
+
+    for (const profile of getModelProfiles()) {
+        statuses.push(await getModelCacheStatus(profile));
+    }
+
+    await TRANSLATIONS_CACHE.ready();
+    statuses.push({
+        id: CACHE_ID_TRANSLATIONS,
+        label: 'Translations',
+        ...TRANSLATIONS_CACHE.getStatus()
+    });
+
+    return statuses;
+}
+
+/**
+ * Returns the status of the model cache of a profile.
+ */
+export async function getModelCacheStatus(profile: ModelProfile = getActiveModelProfile()): Promise<CacheStatus> {
+    const cache = getModelCache(profile);
+    await cache.ready();
+
+    return {
+        id: `${CACHE_ID_MODEL_PREFIX}${getModelCacheKey(profile)}`,
+        label: `Model: ${getModelProfileLabel(profile)}`,
+        ...cache.getStatus()
+    };
+}
+
+/**
+ * Returns the cached data together with its metadata, e.g. to export it.
+ */
+export async function getCacheContent(id: string): Promise<{ metadata: CacheMetadata; data: unknown[] } | null> {
+    const found = findCache(id);
+    if (!found) {
+        return null;
+    }
+
+    await found.cache.ready();
+    const metadata = found.cache.getMetadata();
+    const data = metadata ? found.cache.get(metadata.sourceUrl) : null;
+
+    return metadata && data ? { metadata, data } : null;
+}
+
+/**
+ * Reloads the cache with the given id.
+ */
+export async function reloadCache(id: string): Promise<void> {
+    const found = findCache(id);
+    if (found?.profile) {
+        await reloadModel(found.profile);
+    } else if (found) {
+        await reloadTranslations();
+    }
+}
+
+/**
+ * Clears the cache with the given id.
+ */
+export function clearCache(id: string): void {
+    const found = findCache(id);
+    if (found?.profile) {
+        clearModelCache(found.profile);
+    } else if (found) {
+        clearTranslationsCache();
+    }
+}
+
+/**
+ * Runs a refresh in the background, unless one is already running for the same key.
+ * Failures are only logged, the stale data is still served.
+ */
+function refreshInBackground(key: string, refresh: () => Promise<unknown>): void {
+    if (BACKGROUND_REFRESHES.has(key)) {
+        return;
+    }
+
+    const running = refresh()
+        .then(() => undefined)
+        .catch(error => {
+            console.error('Error refreshing data in the background:', error);
+            vscode.window.setStatusBarMessage('$(warning) Vertec: refresh failed, using cached data.', 10000);
+        })
+        .finally(() => BACKGROUND_REFRESHES.delete(key));
+
+    BACKGROUND_REFRESHES.set(key, running);
 }
 
 /**
@@ -379,50 +909,280 @@ export function getAssociationRoleInfo(
 }
 
 /**
- * Loads all data from a paginated url and caches the results
- * @param forceRefresh optional: ignore cache and reload data.
- * @returns Array with the results
+ * Checks if a data source is a remote http(s) url. Everything else is treated as a local file.
  */
-export async function getModel<T = unknown>(
-    forceRefresh: boolean
-): Promise<T[]> {
-    const modelUrl = vscode.workspace.getConfiguration("vertecVscodeExtension").get("ModelUrl", "");
+function isRemoteSource(source: string): boolean {
+    return /^https?:\/\//i.test(source);
+}
 
-    // must we use the cache?
-    if (!forceRefresh) {
-        const cachedData = MODEL_CACHE.get() as unknown as T[] | null;
-        if (cachedData) {
-            console.log('Data loaded from cache.');
-            return cachedData;
-        }
-        console.log('No cache found, fetching from URL.');
-    } else {
-        console.log('Fetching from URL.');
+/**
+ * Resolves a local data source (file:// uri, absolute path or workspace-relative path) to a file uri.
+ * Model profiles are already resolved against their own workspace folder (see getModelProfiles), other
+ * relative paths are resolved against the workspace folder of the active editor or the first folder.
+ */
+function resolveLocalSource(source: string): vscode.Uri {
+    if (/^file:\/\//i.test(source)) {
+        return vscode.Uri.parse(source);
     }
 
-    try {
-        // Lade zuerst das deutsche Modell
-        const germanResults = await loadModelFromUrl<T>(modelUrl, 'de');
+    if (path.isAbsolute(source)) {
+        return vscode.Uri.file(source);
+    }
 
-        // Lade dann das englische Modell (nur für perceived_name_alt)
-        const englishModelUrl = modelUrl.includes('?')
-            ? `${modelUrl}&lang=en-ch`
-            : `${modelUrl}?lang=en-ch`;
-        const englishResults = await loadModelFromUrl<T>(englishModelUrl, 'en');
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const workspaceFolder = (activeUri && vscode.workspace.getWorkspaceFolder(activeUri))
+        ?? vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        throw new Error(`Cannot resolve the relative path "${source}" without an open workspace.`);
+    }
 
-        // Merge die perceived_name Werte aus dem englischen Modell
-        const mergedResults = mergeEnglishPerceivedNames(germanResults, englishResults);
+    return vscode.Uri.joinPath(workspaceFolder.uri, source);
+}
 
-        console.log(`Loaded ${mergedResults.length} entries in total`);
+/**
+ * Reads and parses JSON data from a remote url or a local file.
+ */
+async function readJsonSource<T>(source: string, token?: vscode.CancellationToken): Promise<T> {
+    if (isRemoteSource(source)) {
+        const response = await httpGet<T>(source, {}, token);
+        return response.data;
+    }
 
-        // Store data in cache (cache typed as unknown[])
-        MODEL_CACHE.set(mergedResults);
+    const content = await vscode.workspace.fs.readFile(resolveLocalSource(source));
+    return JSON.parse(Buffer.from(content).toString('utf8')) as T;
+}
+
+/**
+ * Validators of a source for conditional requests.
+ */
+interface SourceValidator {
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * Validators of a loaded model page, including the data needed to reuse the cached page.
+ */
+interface PageValidator extends SourceValidator {
+    url: string;
+    next: string | null;
+    count: number;
+    ids: number[] | null;  // class ids of the page, null if the page can't be restored from the cache.
+}
+
+interface ModelValidators {
+    de: PageValidator[];
+    en: PageValidator[];
+}
+
+/**
+ * Progress of the download of one language. Stored on failure, so the next attempt can resume.
+ */
+interface LanguageDownloadState<T> {
+    results: T[];
+    validators: PageValidator[];
+    nextUrl: string | null;     // null if all pages are loaded.
+    totalCount: number;
+    modified: boolean;
+}
+
+interface ModelDownloadState<T> {
+    sourceUrl: string;
+    de: LanguageDownloadState<T>;
+    en: LanguageDownloadState<T> | null;
+}
+
+/**
+ * Reads JSON data only if it changed since the given validator.
+ * Remote sources are requested with If-None-Match / If-Modified-Since,
+ * local files are compared by their modification time.
+ * @returns the data or null if the source was not modified, and the new validator.
+ */
+async function readJsonSourceIfModified<T>(
+    source: string,
+    validator?: SourceValidator,
+    token?: vscode.CancellationToken
+): Promise<{ data: T | null; validator: SourceValidator }> {
+    if (!isRemoteSource(source)) {
+        const stat = await vscode.workspace.fs.stat(resolveLocalSource(source));
+        const lastModified = String(stat.mtime);
+        if (validator?.lastModified === lastModified) {
+            return { data: null, validator };
+        }
+        return { data: await readJsonSource<T>(source, token), validator: { lastModified } };
+    }
 
-        return mergedResults;
+    const headers: Record<string, string> = {};
+    if (validator?.etag) {
+        headers['If-None-Match'] = validator.etag;
+    }
+    if (validator?.lastModified) {
+        headers['If-Modified-Since'] = validator.lastModified;
+    }
+
+    const response = await httpGet<T>(source, {
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+    }, token);
+
+    const newValidator: SourceValidator = {
+        etag: response.headers['etag'] ?? validator?.etag,
+        lastModified: response.headers['last-modified'] ?? validator?.lastModified
+    };
+
+    return {
+        data: response.status === 304 ? null : response.data,
+        validator: newValidator
+    };
+}
+
+/**
+ * Resolves the url of the next page. Relative paths in local files point to files next to the current page.
+ */
+function resolveNextSource(currentSource: string, next: string | null): string | null {
+    if (!next || isRemoteSource(currentSource) || isRemoteSource(next)) {
+        return next;
+    }
+
+    if (/^file:\/\//i.test(next) || path.isAbsolute(next)) {
+        return next;
+    }
+
+    return vscode.Uri.joinPath(resolveLocalSource(currentSource), '..', next).toString();
+}
+
+/**
+ * Returns the source of the english model.
+ * For urls, the language is passed as query parameter. For local files, a sibling file
+ * with the suffix ".en.json" is used (e.g. "model.json" and "model.en.json").
+ * Returns null if there is no english file, the local data is used as is then.
+ */
+async function getEnglishModelSource(modelSource: string): Promise<string | null> {
+    if (isRemoteSource(modelSource)) {
+        return modelSource.includes('?')
+            ? `${modelSource}&lang=en-ch`
+            : `${modelSource}?lang=en-ch`;
+    }
+
+    const germanUri = resolveLocalSource(modelSource);
+    const englishUri = germanUri.with({ path: germanUri.path.replace(/(\.json)?$/i, '.en.json') });
+    try {
+        await vscode.workspace.fs.stat(englishUri);
+        return englishUri.toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Converts a loaded model file to a page. A flat array (e.g. an exported snapshot) is a single page.
+ */
+function toModelPage<T>(data: ModelApiResponse<T> | T[]): ModelApiResponse<T> {
+    if (Array.isArray(data)) {
+        return {
+            count: data.length,
+            next: null,
+            previous: null,
+            results: data
+        };
+    }
+
+    return data;
+}
+
+/**
+ * Creates the error message for a failed download, a broken local file or wrong request settings.
+ */
+function getLoadErrorMessage(error: unknown): string | null {
+    if (axios.isAxiosError(error)) {
+        return `API error: ${error.message}`;
+    }
+
+    if (error instanceof vscode.FileSystemError || error instanceof SyntaxError) {
+        return `File error: ${error.message}`;
+    }
+
+    if (error instanceof RequestConfigError) {
+        return error.message;
+    }
+
+    return null;
+}
+
+/**
+ * Loads all data from a paginated url or a local file and caches the results.
+ * Stale cached data is returned immediately and refreshed in the background.
+ * The workspace model overlay is merged into the results.
+ * @param forceRefresh optional: ignore cache and reload data.
+ * @param profile optional: the model profile, defaults to the active profile.
+ * @returns Array with the results
+ */
+export async function getModel<T = unknown>(
+    forceRefresh: boolean,
+    profile: ModelProfile = getActiveModelProfile()
+): Promise<T[]> {
+    const classes = await getModelData<T>(forceRefresh, profile);
+    return await applyModelOverlay(classes as unknown as VertecClass[]) as unknown as T[];
+}
+
+/**
+ * Loads the model of a profile like getModel, but without the workspace overlay,
+ * e.g. for snapshots which get the overlay applied again when they are loaded.
+ * @param profile optional: the model profile, defaults to the active profile.
+ */
+export async function getRawModel<T = unknown>(profile: ModelProfile = getActiveModelProfile()): Promise<T[]> {
+    return await getModelData<T>(false, profile);
+}
+
+/**
+ * Returns the cached model of a profile with the workspace overlay, without loading or refreshing it.
+ * Used by passive features like code actions and hovers, which must not start downloads.
+ * @returns null if the model of the profile is not loaded.
+ */
+export async function getCachedModel<T = unknown>(profile: ModelProfile = getActiveModelProfile()): Promise<T[] | null> {
+    const modelCache = getModelCache(profile);
+    await modelCache.ready();
 
+    const cachedData = modelCache.get(profile.url);
+    return cachedData ? await applyModelOverlay(cachedData as unknown as VertecClass[]) as unknown as T[] : null;
+}
+
+/**
+ * Loads the model data of a profile from the cache or the API, without the workspace overlay.
+ */
+async function getModelData<T>(forceRefresh: boolean, profile: ModelProfile): Promise<T[]> {
+    const modelCache = getModelCache(profile);
+    await modelCache.ready();
+
+    // must we use the cache?
+    const cachedData = modelCache.get(profile.url) as unknown as T[] | null;
+    if (!forceRefresh) {
+        if (cachedData) {
+            if (modelCache.isStale()) {
+                console.log('Cached data is stale, refreshing in the background.');
+                refreshInBackground(
+                    getModelCacheKey(profile),
+                    () => loadModel<T>(profile, modelCache, cachedData, true)
+                );
+            } else {
+                console.log('Data loaded from cache.');
+            }
+            return cachedData;
+        }
+        console.log('No cache found, fetching from URL.');
+    } else {
+        console.log('Fetching from URL.');
+    }
+
+    try {
+        return await loadModel<T>(profile, modelCache, cachedData, false);
     } catch (error) {
-        if (axios.isAxiosError(error)) {
-            const errorMsg = `API error: ${error.message}`;
+        if (error instanceof vscode.CancellationError) {
+            vscode.window.showInformationMessage('Model download cancelled. The next attempt resumes where it stopped.');
+            throw error;
+        }
+        const errorMsg = getLoadErrorMessage(error);
+        if (errorMsg) {
             vscode.window.showErrorMessage(errorMsg);
             throw new Error(errorMsg);
         }
@@ -431,58 +1191,215 @@ export async function getModel<T = unknown>(
 }
 
 /**
- * Loads model data from a specified URL with progress indication
+ * Creates the state for a new download of one language.
  */
-async function loadModelFromUrl<T>(modelUrl: string, language: 'de' | 'en'): Promise<T[]> {
+function createDownloadState<T>(url: string): LanguageDownloadState<T> {
+    return {
+        results: [],
+        validators: [],
+        nextUrl: url,
+        totalCount: 0,
+        modified: false
+    };
+}
+
+/**
+ * Loads the german and english model of a profile, merges them and stores the result in the cache.
+ * If a previous download failed or was cancelled, it resumes after the last loaded page.
+ * Listeners are notified if the new data replaced cached data.
+ * @param background if true, the progress is only shown in the status bar.
+ */
+async function loadModel<T>(
+    profile: ModelProfile,
+    modelCache: DataCache<unknown>,
+    cachedData: T[] | null,
+    background: boolean
+): Promise<T[]> {
+    const modelUrl = profile.url;
+    const progressLocation = background ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification;
+
+    // Pages which did not change since the last download are restored from the cached data.
+    const validators = cachedData ? modelCache.getValidators<ModelValidators>() : undefined;
+    const cachedClasses = new Map<number, VertecClass>();
+    cachedData?.forEach(item => {
+        if (isVertecClass(item)) {
+            cachedClasses.set(item.class_id, item);
+        }
+    });
+
+    // Resume an interrupted download of the same source.
+    const partial = await modelCache.getPartial<ModelDownloadState<T>>();
+    const state: ModelDownloadState<T> = partial?.sourceUrl === modelUrl
+        ? partial
+        : { sourceUrl: modelUrl, de: createDownloadState<T>(modelUrl), en: null };
+
+    try {
+        // Lade zuerst das deutsche Modell
+        if (state.de.nextUrl) {
+            await loadModelFromUrl<T>(
+                state.de, 'de', profile, validators?.de ?? [], cachedClasses, progressLocation
+            );
+        }
+
+        // Lade dann das englische Modell (nur für perceived_name_alt)
+        const englishModelUrl = await getEnglishModelSource(modelUrl);
+        if (englishModelUrl) {
+            state.en ??= createDownloadState<T>(englishModelUrl);
+            if (state.en.nextUrl) {
+                await loadModelFromUrl<T>(
+                    state.en, 'en', profile, validators?.en ?? [], cachedClasses, progressLocation
+                );
+            }
+        } else {
+            state.en = null;
+        }
+
+    } catch (error) {
+        if (state.de.validators.length > 0) {
+            console.log('Download interrupted, the next attempt resumes after the last loaded page.');
+            await modelCache.setPartial(state);
+        }
+        throw error;
+    }
+
+    await modelCache.setPartial(undefined);
+
+    const german = state.de;
+    const english = state.en;
+
+    // A different page structure counts as modification too.
+    const isModified = (download: LanguageDownloadState<T>, previous?: PageValidator[]) =>
+        download.modified || download.validators.length !== (previous ?? []).length;
 
-    const allResults: T[] = [];
-    let currentUrl: string | null = modelUrl;
-    let objectCount = 0;
-    let totalCount = 0;
+    // Nothing changed, keep the cached data.
+    if (cachedData && !isModified(german, validators?.de) && (!english || !isModified(english, validators?.en))) {
+        console.log('Model not modified, using cached data.');
+        modelCache.touch();
+        return cachedData;
+    }
+
+    // Merge die perceived_name Werte aus dem englischen Modell
+    const mergedResults = english
+        ? mergeEnglishPerceivedNames(german.results, english.results)
+        : german.results;
+
+    console.log(`Loaded ${mergedResults.length} entries in total`);
+
+    // Store data in cache (cache typed as unknown[])
+    modelCache.set(mergedResults, modelUrl, english ? ['de', 'en'] : ['de']);
+    await modelCache.setValidators<ModelValidators>({
+        de: german.validators,
+        en: english?.validators ?? []
+    });
+
+    if (cachedData) {
+        onDidChangeModelEmitter.fire(profile);
+    }
+
+    return mergedResults;
+}
+
+/**
+ * Loads model data from the next url of the download state with progress indication.
+ * Pages with a stored validator are requested conditionally and restored from the
+ * cached classes if they did not change. Failed pages are retried by the http client,
+ * the download can be cancelled from the progress notification.
+ */
+async function loadModelFromUrl<T>(
+    state: LanguageDownloadState<T>,
+    language: 'de' | 'en',
+    profile: ModelProfile,
+    previousValidators: PageValidator[],
+    cachedClasses: Map<number, VertecClass>,
+    progressLocation: vscode.ProgressLocation
+): Promise<void> {
 
     // Show progress to user, because backend is kinda slow.
     await vscode.window.withProgress(
         {
-            location: vscode.ProgressLocation.Notification,
-            title: `Loading ${language === 'de' ? 'german' : 'english'} model data`,
-            cancellable: false
+            location: progressLocation,
+            title: `Loading ${language === 'de' ? 'german' : 'english'} model data (${profile.name})`,
+            cancellable: true
         },
-        async (progress) => {
-            while (currentUrl) {
-                if (totalCount === 0) {
-                    progress.report({ message: 'Loading first page' });
-                }
+        async (progress, token) => {
+            if (state.totalCount === 0) {
+                progress.report({ message: 'Loading first page' });
+            } else {
+                progress.report({
+                    message: `Resuming after ${state.results.length} of ${state.totalCount} entries`,
+                    increment: (state.results.length / state.totalCount * 100.0)
+                });
+            }
 
-                const response = await axios.get<ModelApiResponse<T>>(currentUrl);
+            while (state.nextUrl) {
+                const pageUrl: string = state.nextUrl;
+                const previous = previousValidators.find(validator => validator.url === pageUrl);
+                const cachedPage = previous ? restoreCachedPage<T>(previous, language, cachedClasses) : null;
+
+                // Only send a conditional request, if we are able to restore the page.
+                const response = await readJsonSourceIfModified<ModelApiResponse<T> | T[]>(
+                    pageUrl,
+                    cachedPage ? previous : undefined,
+                    token
+                );
+
+                let pageResults: T[];
+                let pageCount: number;
+                let pageNext: string | null;
+
+                if (response.data === null && cachedPage && previous) {
+                    pageResults = cachedPage;
+                    pageCount = previous.count;
+                    pageNext = previous.next;
+                } else {
+                    const page = toModelPage(response.data as ModelApiResponse<T> | T[]);
+                    state.modified = true;
+
+                    // Normalisiere die Daten, falls es VertecClass-Objekte sind
+                    pageResults = language === 'de'
+                        ? page.results.map(item => {
+                            // Type guard: Prüfe ob es ein VertecClass-Objekt ist
+                            if (isVertecClass(item)) {
+                                return normalizeVertecClass(item) as unknown as T;
+                            }
+                            return item;
+                        })
+                        : page.results;
+                    pageCount = page.count;
+                    pageNext = page.next;
+                }
 
                 // Set total count on first page load
-                if (totalCount === 0) {
-                    totalCount = response.data.count;
+                if (state.totalCount === 0) {
+                    state.totalCount = pageCount;
                 }
 
-                // Normalisiere die Daten, falls es VertecClass-Objekte sind
-                const normalizedResults = language === 'de'
-                    ? response.data.results.map(item => {
-                    // Type guard: Prüfe ob es ein VertecClass-Objekt ist
+                // Remember the validators and the content of the page.
+                const ids: number[] = [];
+                pageResults.forEach(item => {
                     if (isVertecClass(item)) {
-                        return normalizeVertecClass(item) as unknown as T;
+                        ids.push(item.class_id);
                     }
-                    return item;
-                })
-                : response.data.results;
+                });
+                state.validators.push({
+                    ...response.validator,
+                    url: pageUrl,
+                    next: pageNext,
+                    count: pageCount,
+                    ids: ids.length === pageResults.length ? ids : null
+                });
 
                 // Merge results
-                objectCount += normalizedResults.length;
-                allResults.push(...normalizedResults);
+                state.results.push(...pageResults);
 
                 // Set next url
-                currentUrl = response.data.next;
+                state.nextUrl = resolveNextSource(pageUrl, pageNext);
 
                 // Display progress
-                const message = `${objectCount} of ${totalCount} entries loaded`;
+                const message = `${state.results.length} of ${state.totalCount} entries loaded`;
                 progress.report({
                     message: message,
-                    increment: (normalizedResults.length / totalCount * 100.0)
+                    increment: (pageResults.length / state.totalCount * 100.0)
                 });
                 console.log(message);
             }
@@ -490,8 +1407,50 @@ async function loadModelFromUrl<T>(modelUrl: string, language: 'de' | 'en'): Pro
             progress.report({ message: 'All done!' });
         }
     );
+}
+
+/**
+ * Restores the content of a page from the cached classes.
+ * Returns null if one of the classes is missing in the cache.
+ */
+function restoreCachedPage<T>(
+    validator: PageValidator,
+    language: 'de' | 'en',
+    cachedClasses: Map<number, VertecClass>
+): T[] | null {
+    if (!validator.ids) {
+        return null;
+    }
+
+    const results: T[] = [];
+    for (const id of validator.ids) {
+        const cachedClass = cachedClasses.get(id);
+        if (!cachedClass) {
+            return null;
+        }
+        results.push((language === 'de' ? cachedClass : extractEnglishClass(cachedClass)) as unknown as T);
+    }
 
-    return allResults;
+    return results;
+}
+
+/**
+ * Restores the english class data used by mergeEnglishPerceivedNames from a merged class.
+ */
+function extractEnglishClass(mergedClass: VertecClass): VertecClass {
+    return {
+        ...mergedClass,
+        associations: mergedClass.associations
+            ?.filter(assoc => assoc.perceived_name_alt !== undefined)
+            .map(assoc => ({
+                ...assoc,
+                perceived_name: assoc.perceived_name_alt ?? assoc.perceived_name,
+                role1_name: assoc.role1_name_alt ?? assoc.role1_name,
+                role2_name: assoc.role2_name_alt ?? assoc.role2_name,
+                role1_class: assoc.role1_class_alt ?? assoc.role1_class,
+                role2_class: assoc.role2_class_alt ?? assoc.role2_class,
+            }))
+    };
 }
 
 /**
@@ -616,90 +1575,305 @@ function isVertecClass(obj: unknown): obj is VertecClass {
 }
 
 /**
- * Empties the Model Browser cache
+ * Empties the Model Browser cache of a profile, defaults to the active profile.
  */
-export function clearModelCache(): void {
-    MODEL_CACHE.clear();
+export function clearModelCache(profile: ModelProfile = getActiveModelProfile()): void {
+    getModelCache(profile).clear();
     vscode.window.showInformationMessage('Model cache cleared.');
 }
 
 
 /**
- * Reloads the model data by clearing the cache and fetching the data again from the API.
+ * Reloads the model data of a profile (defaults to the active profile) by revalidating the cache against the API.
+ * Unchanged pages are not downloaded again.
  */
-export async function reloadModel() {
+export async function reloadModel(profile: ModelProfile = getActiveModelProfile()) {
     try {
-        // Empty cache
-        clearModelCache();
-
         // Reload Model Browser and force refresh cache.
-        const classes = await getModel<VertecClass>(true);
+        const classes = await getModel<VertecClass>(true, profile);
 
         vscode.window.showInformationMessage(
             `Reloaded ${classes.length} classes!`
         );
 
     } catch (error) {
+        // Cancelled by the user, getModel already informed about it.
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
         console.error('Error loading the data:', error);
         vscode.window.showErrorMessage('An error occured while loading the model data.');
     }
 }
 
 /**
- * Resolves the inheritance hierarchy of a given class and collects all members and associations,
- * including the source class information.
+ * Loads a model from an url or a file without caching it, e.g. a saved snapshot to compare with.
+ * Snapshots are flat lists of classes, like the model files for offline usage.
+ * The workspace model overlay is merged, as customer-specific fields remain after an upgrade.
  */
-export function resolveInheritance(
-    targetClass: VertecClass,
-    allClasses: VertecClass[]
-): {
+export async function loadModelSnapshot(source: string): Promise<VertecClass[]> {
+    const profile: ModelProfile = { name: path.basename(source), url: source };
+    const german = createDownloadState<VertecClass>(source);
+    const englishSource = await getEnglishModelSource(source);
+    const english = englishSource ? createDownloadState<VertecClass>(englishSource) : null;
+
+    try {
+        await loadModelFromUrl(german, 'de', profile, [], new Map(), vscode.ProgressLocation.Notification);
+        if (english) {
+            await loadModelFromUrl(english, 'en', profile, [], new Map(), vscode.ProgressLocation.Notification);
+        }
+    } catch (error) {
+        const errorMsg = getLoadErrorMessage(error);
+        throw errorMsg ? new Error(errorMsg) : error;
+    }
+
+    const results = english ? mergeEnglishPerceivedNames(german.results, english.results) : german.results;
+    return applyModelOverlay(results.filter(isVertecClass));
+}
+
+/**
+ * Members and associations of a class including the inherited ones.
+ */
+export interface ResolvedVertecClass {
     members: EnrichedVertecMember[];
     associations: EnrichedVertecAssociation[];
-} {
-    const EnrichedVertecMembers: EnrichedVertecMember[] = [];
-    const EnrichedVertecAssociations: EnrichedVertecAssociation[] = [];
-
-    // Helper function to recursively collect members and associations from the class hierarchy.
-    function collectFromClass(currentClass: VertecClass): void {
-        // Add members of the current class.
-        if (currentClass.members) {
-            currentClass.members.forEach(member => {
-                EnrichedVertecMembers.push(createEnrichedVertecMember(
-                    member,
-                    currentClass.name_alt || currentClass.name
-                ));
-            });
+}
+
+/**
+ * Lookup tables of a loaded model. Built once per model data (see getModelIndexFor),
+ * so completion and hover don't need to scan all classes on every keystroke.
+ */
+export class ModelIndex {
+    readonly classes: VertecClass[];
+    private classesById = new Map<number, VertecClass>();
+    private classesByName = new Map<string, VertecClass>();
+    private subclassesById = new Map<number, VertecClass[]>();
+    private ancestorIds = new Map<number, Set<number>>();
+    private resolvedClasses = new Map<number, ResolvedVertecClass & {
+        membersByName: Map<string, EnrichedVertecMember>;
+        associationsByName: Map<string, EnrichedVertecAssociation>;
+    }>();
+
+    constructor(classes: VertecClass[]) {
+        this.classes = classes;
+
+        classes.forEach(cls => {
+            this.classesById.set(cls.class_id, cls);
+        });
+
+        // German names win over english names of other classes.
+        classes.forEach(cls => {
+            const name = cls.name.toLowerCase();
+            if (!this.classesByName.has(name)) {
+                this.classesByName.set(name, cls);
+            }
+        });
+        classes.forEach(cls => {
+            const nameAlt = cls.name_alt?.toLowerCase();
+            if (nameAlt && !this.classesByName.has(nameAlt)) {
+                this.classesByName.set(nameAlt, cls);
+            }
+        });
+
+        classes.forEach(cls => {
+            if (cls.superclass) {
+                const subclasses = this.subclassesById.get(cls.superclass.class_id) ?? [];
+                subclasses.push(cls);
+                this.subclassesById.set(cls.superclass.class_id, subclasses);
+            }
+        });
+    }
+
+    /**
+     * Returns the class with the given id.
+     */
+    getClassById(classId: number): VertecClass | undefined {
+        return this.classesById.get(classId);
+    }
+
+    /**
+     * Finds a class by name (German or English, case insensitive).
+     */
+    findClass(className: string): VertecClass | null {
+        return this.classesByName.get(className.toLowerCase()) ?? null;
+    }
+
+    /**
+     * Returns the direct subclasses of a class.
+     */
+    getSubclasses(cls: VertecClass): VertecClass[] {
+        return this.subclassesById.get(cls.class_id) ?? [];
+    }
+
+    /**
+     * Returns all subclasses of a class, including the indirect ones.
+     */
+    getAllSubclasses(cls: VertecClass): VertecClass[] {
+        const result: VertecClass[] = [];
+        const visited = new Set<number>([cls.class_id]);
+        const pending = [...this.getSubclasses(cls)];
+
+        while (pending.length > 0) {
+            const subclass = pending.shift()!;
+            if (visited.has(subclass.class_id)) {
+                continue;
+            }
+            visited.add(subclass.class_id);
+            result.push(subclass);
+            pending.push(...this.getSubclasses(subclass));
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the ids of the class and all its superclasses.
+     */
+    getAncestorIds(cls: VertecClass): Set<number> {
+        let ancestorIds = this.ancestorIds.get(cls.class_id);
+        if (!ancestorIds) {
+            ancestorIds = new Set<number>();
+            let current: VertecClass | undefined = cls;
+            // Guard against cyclic superclass references in the data.
+            while (current && !ancestorIds.has(current.class_id)) {
+                ancestorIds.add(current.class_id);
+                current = current.superclass ? this.classesById.get(current.superclass.class_id) : undefined;
+            }
+            this.ancestorIds.set(cls.class_id, ancestorIds);
+        }
+
+        return ancestorIds;
+    }
+
+    /**
+     * Checks if a class is the same as or a subclass of the target class reference.
+     */
+    isClassOrSubclass(cls: VertecClass, targetClassRef: VertecClassRef | undefined): boolean {
+        if (!targetClassRef) {
+            return false;
+        }
+
+        return this.getAncestorIds(cls).has(targetClassRef.class_id);
+    }
+
+    /**
+     * Returns the members and associations of a class including the inherited ones.
+     */
+    resolve(cls: VertecClass): ResolvedVertecClass {
+        return this.getResolvedClass(cls);
+    }
+
+    /**
+     * Finds a member of a class (including inherited members) by its German or English name.
+     */
+    findMember(cls: VertecClass, name: string): EnrichedVertecMember | undefined {
+        return this.getResolvedClass(cls).membersByName.get(name.toLowerCase());
+    }
+
+    /**
+     * Finds an association of a class (including inherited associations) by its German or English perceived name.
+     */
+    findAssociation(cls: VertecClass, name: string): EnrichedVertecAssociation | undefined {
+        return this.getResolvedClass(cls).associationsByName.get(name.toLowerCase());
+    }
+
+    /**
+     * Collects and caches the members and associations of the class hierarchy.
+     */
+    private getResolvedClass(cls: VertecClass) {
+        // Only classes of this model are cached, others are resolved on each call.
+        const isIndexed = this.classesById.get(cls.class_id) === cls;
+        const cached = isIndexed ? this.resolvedClasses.get(cls.class_id) : undefined;
+        if (cached) {
+            return cached;
         }
 
-        // Add associations of the current class.
-        if (currentClass.associations) {
-            currentClass.associations.forEach(assoc => {
-                EnrichedVertecAssociations.push(createEnrichedVertecAssociation(
-                    assoc,
-                    currentClass.name_alt || currentClass.name
-                ));
+        const members: EnrichedVertecMember[] = [];
+        const associations: EnrichedVertecAssociation[] = [];
+        const membersByName = new Map<string, EnrichedVertecMember>();
+        const associationsByName = new Map<string, EnrichedVertecAssociation>();
+
+        // Walk up the hierarchy, starting with the class itself.
+        const visited = new Set<number>();
+        let current: VertecClass | undefined = cls;
+        while (current && !visited.has(current.class_id)) {
+            visited.add(current.class_id);
+            const sourceClass = current.name_alt || current.name;
+
+            current.members?.forEach(member => {
+                members.push(createEnrichedVertecMember(member, sourceClass));
+            });
+            current.associations?.forEach(assoc => {
+                associations.push(createEnrichedVertecAssociation(assoc, sourceClass));
             });
+
+            current = current.superclass ? this.classesById.get(current.superclass.class_id) : undefined;
         }
 
-        // Go the the parent class if it exists.
-        if (currentClass.superclass) {
-            const superclass = allClasses.find(
-                cls => cls.class_id === currentClass.superclass!.class_id
-            );
+        // The first match wins, so own members hide inherited ones.
+        members.forEach(member => {
+            [member.name, member.name_alt].forEach(name => {
+                if (name && !membersByName.has(name.toLowerCase())) {
+                    membersByName.set(name.toLowerCase(), member);
+                }
+            });
+        });
+        associations.forEach(assoc => {
+            [assoc.perceived_name, assoc.perceived_name_alt].forEach(name => {
+                if (name && !associationsByName.has(name.toLowerCase())) {
+                    associationsByName.set(name.toLowerCase(), assoc);
+                }
+            });
+        });
 
-            if (superclass) {
-                collectFromClass(superclass);
-            }
+        const resolved = { members, associations, membersByName, associationsByName };
+        if (isIndexed) {
+            this.resolvedClasses.set(cls.class_id, resolved);
         }
+
+        return resolved;
     }
+}
 
-    // Start collection from the target class.
-    collectFromClass(targetClass);
+// One index per loaded model data. Replaced data gets a new index automatically.
+const MODEL_INDEXES = new WeakMap<VertecClass[], ModelIndex>();
 
-    return {
-        members: EnrichedVertecMembers,
-        associations: EnrichedVertecAssociations
-    };
+/**
+ * Returns the index of the given model data, builds it on first use.
+ */
+export function getModelIndexFor(classes: VertecClass[]): ModelIndex {
+    let index = MODEL_INDEXES.get(classes);
+    if (!index) {
+        index = new ModelIndex(classes);
+        MODEL_INDEXES.set(classes, index);
+    }
+
+    return index;
+}
+
+/**
+ * Loads the model (see getModel) and returns its index.
+ * @param forceRefresh optional: ignore cache and reload data.
+ * @param profile optional: the model profile, defaults to the active profile.
+ */
+export async function getModelIndex(
+    forceRefresh = false,
+    profile: ModelProfile = getActiveModelProfile()
+): Promise<ModelIndex> {
+    const classes = await getModel<VertecClass>(forceRefresh, profile);
+    return getModelIndexFor(classes);
+}
+
+/**
+ * Resolves the inheritance hierarchy of a given class and collects all members and associations,
+ * including the source class information.
+ */
+export function resolveInheritance(
+    targetClass: VertecClass,
+    allClasses: VertecClass[]
+): ResolvedVertecClass {
+    const { members, associations } = getModelIndexFor(allClasses).resolve(targetClass);
+    return { members, associations };
 }
 
 /**
@@ -711,41 +1885,54 @@ function isClassOrSubclass(
     targetClassRef: VertecClassRef | undefined,
     allClasses: VertecClass[]
 ): boolean {
-    if (!targetClassRef) {
-        return false;
-    }
-
-    if (currentClass.class_id === targetClassRef.class_id) {
-        return true;
-    }
+    return getModelIndexFor(allClasses).isClassOrSubclass(currentClass, targetClassRef);
+}
 
-    if (currentClass.superclass) {
-        const superclass = allClasses.find(
-            cls => cls.class_id === currentClass.superclass!.class_id
-        );
+/**
+ * Returns the configured translations url.
+ */
+function getTranslationsUrl(): string {
+    return vscode.workspace.getConfiguration("vertecVscodeExtension").get("TranslationsUrl", "");
+}
 
-        if (superclass) {
-            return isClassOrSubclass(superclass, targetClassRef, allClasses);
+/**
+ * Returns the language columns (e.g. NVD, FR0) used in the translation data.
+ */
+function getTranslationLanguages(translations: unknown[]): string[] {
+    const languages = new Set<string>();
+    translations.forEach(translation => {
+        if (typeof translation === 'object' && translation !== null) {
+            Object.keys(translation).forEach(key => languages.add(key));
         }
-    }
+    });
 
-    return false;
+    return [...languages].sort();
 }
 
 /**
- * Loads translation data from the API (simple JSON file)
+ * Loads translation data from the API or a local file (simple JSON file).
+ * Stale cached data is returned immediately and refreshed in the background.
  * @param forceRefresh If true, ignores cache and reloads data
  */
 export async function getTranslations<T = unknown>(
     forceRefresh: boolean
 ): Promise<T[]> {
-    const translationsUrl = vscode.workspace.getConfiguration("vertecVscodeExtension").get("TranslationsUrl", "");
+    const translationsUrl = getTranslationsUrl();
+    await TRANSLATIONS_CACHE.ready();
 
     // must we use the cache?
     if (!forceRefresh) {
-        const cachedData = TRANSLATIONS_CACHE.get() as unknown as T[] | null;
+        const cachedData = TRANSLATIONS_CACHE.get(translationsUrl) as unknown as T[] | null;
         if (cachedData) {
-            console.log('Data loaded from cache.');
+            if (TRANSLATIONS_CACHE.isStale()) {
+                console.log('Cached data is stale, refreshing in the background.');
+                refreshInBackground('translations', async () => {
+                    await loadTranslations<T>(true);
+                    onDidChangeTranslationsEmitter.fire();
+                });
+            } else {
+                console.log('Data loaded from cache.');
+            }
             return cachedData;
         }
         console.log('No cache found, fetching from URL.');
@@ -753,42 +1940,58 @@ export async function getTranslations<T = unknown>(
         console.log('Fetching from URL.');
     }
 
-    let translationData: T[] = [];
-
     try {
-        // Show progress to user.
-        await vscode.window.withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: 'Loading translation data',
-                cancellable: false
-            },
-            async (progress) => {
-                progress.report({ message: 'Downloading file' });
+        return await loadTranslations<T>(false);
+    } catch (error) {
+        const errorMsg = getLoadErrorMessage(error);
+        if (errorMsg) {
+            vscode.window.showErrorMessage(errorMsg);
+            throw new Error(errorMsg);
+        }
+        throw error;
+    }
+}
 
-                const response = await axios.get<T[]>(translationsUrl);
+/**
+ * Returns the cached translations without loading or refreshing them, see getCachedModel.
+ * @returns null if the translations are not loaded.
+ */
+export async function getCachedTranslations<T = unknown>(): Promise<T[] | null> {
+    await TRANSLATIONS_CACHE.ready();
+    return TRANSLATIONS_CACHE.get(getTranslationsUrl()) as unknown as T[] | null;
+}
 
-                translationData = response.data;
+/**
+ * Loads the translation file and stores it in the cache.
+ * @param background if true, the progress is only shown in the status bar.
+ */
+async function loadTranslations<T>(background: boolean): Promise<T[]> {
+    const translationsUrl = getTranslationsUrl();
 
-                console.log(`Translation data loaded: ${translationData.length} entries`);
+    let translationData: T[] = [];
 
-                progress.report({ message: 'All done!' });
-            }
-        );
+    // Show progress to user.
+    await vscode.window.withProgress(
+        {
+            location: background ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification,
+            title: 'Loading translation data',
+            cancellable: false
+        },
+        async (progress) => {
+            progress.report({ message: isRemoteSource(translationsUrl) ? 'Downloading file' : 'Reading file' });
 
-        // Store data in cache (cache typed as unknown[])
-        TRANSLATIONS_CACHE.set(translationData);
+            translationData = await readJsonSource<T[]>(translationsUrl);
 
-        return translationData;
+            console.log(`Translation data loaded: ${translationData.length} entries`);
 
-    } catch (error) {
-        if (axios.isAxiosError(error)) {
-            const errorMsg = `API error: ${error.message}`;
-            vscode.window.showErrorMessage(errorMsg);
-            throw new Error(errorMsg);
+            progress.report({ message: 'All done!' });
         }
-        throw error;
-    }
+    );
+
+    // Store data in cache (cache typed as unknown[])
+    TRANSLATIONS_CACHE.set(translationData, translationsUrl, getTranslationLanguages(translationData));
+
+    return translationData;
 }
 
 /**
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { VertecTranslation } from './DataProvider';
+
+/**
+ * Workspace file with the team's own translations (customer-specific labels, report captions),
+ * in the shape of the downloaded translations. Read from every workspace folder.
+ */
+export const GLOSSARY_FILE = '.vertec/glossary.json';
+
+/**
+ * Translation of the downloaded translations or of a glossary file (is_local).
+ */
+export interface GlossaryTranslation extends VertecTranslation {
+    is_local?: boolean;
+}
+
+// Loaded glossary entries, null if not loaded yet. The version identifies the loaded content.
+let glossaryEntries: GlossaryTranslation[] | null = null;
+let glossaryVersion = 0;
+
+// Merged translations per translation data, so repeated calls return the same array (and lookups).
+const MERGED_TRANSLATIONS = new WeakMap<VertecTranslation[], { version: number; translations: GlossaryTranslation[] }>();
+
+/**
+ * Parses the content of a glossary file: a list of translations or an object with "translations".
+ */
+function parseGlossary(content: Uint8Array): { data: unknown; translations: VertecTranslation[] } {
+    const data = JSON.parse(Buffer.from(content).toString('utf8'));
+    const translations: unknown = Array.isArray(data) ? data : data?.translations;
+    if (!Array.isArray(translations)) {
+        throw new Error('Expected a list of translations or an object with "translations".');
+    }
+
+    return { data, translations };
+}
+
+/**
+ * Reads the glossary files of all workspace folders. Invalid files are reported and skipped.
+ */
+async function loadGlossary(): Promise<GlossaryTranslation[]> {
+    const entries: GlossaryTranslation[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const uri = vscode.Uri.joinPath(folder.uri, GLOSSARY_FILE);
+        let content: Uint8Array;
+        try {
+            content = await vscode.workspace.fs.readFile(uri);
+        } catch {
+            continue;
+        }
+
+        try {
+            const { translations } = parseGlossary(content);
+            entries.push(...translations
+                .filter(entry => entry && typeof entry === 'object')
+                .map(entry => ({ ...entry, is_local: true })));
+        } catch (error) {
+            console.error('Error reading the glossary:', error);
+            vscode.window.showErrorMessage(
+                `Invalid glossary ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`
+            );
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Returns the glossary entries, loads them on first use.
+ */
+async function getGlossary(): Promise<GlossaryTranslation[]> {
+    if (glossaryEntries === null) {
+        const version = glossaryVersion;
+        const loaded = await loadGlossary();
+        // Ignore the result, if the files changed while loading.
+        if (version !== glossaryVersion) {
+            return getGlossary();
+        }
+        glossaryEntries = loaded;
+    }
+
+    return glossaryEntries;
+}
+
+/**
+ * Forgets the loaded glossary, so it is read again on next use.
+ */
+function reloadGlossary() {
+    glossaryEntries = null;
+    glossaryVersion++;
+}
+
+/**
+ * Adds the glossary entries to the translations. Returns the translations themselves without glossary.
+ * The glossary entries come first and are marked with is_local.
+ */
+export async function applyGlossary(translations: VertecTranslation[]): Promise<GlossaryTranslation[]> {
+    const glossary = await getGlossary();
+    if (glossary.length === 0) {
+        return translations;
+    }
+
+    const merged = MERGED_TRANSLATIONS.get(translations);
+    if (merged?.version === glossaryVersion) {
+        return merged.translations;
+    }
+
+    const result = [...glossary, ...translations];
+    MERGED_TRANSLATIONS.set(translations, { version: glossaryVersion, translations: result });
+
+    return result;
+}
+
+/**
+ * Returns the workspace folder for the glossary: the folder of the active editor,
+ * the only folder or the folder picked by the user.
+ */
+export async function pickGlossaryFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    if (activeFolder) {
+        return activeFolder;
+    }
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+
+    return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder of the glossary ...' });
+}
+
+/**
+ * Adds translations to the glossary file of a workspace folder. Entries with the same German text are replaced.
+ * The file is created if needed, its shape (list or object with "translations") is kept.
+ * @returns the number of added (not replaced) entries.
+ */
+export async function writeGlossaryEntries(folder: vscode.WorkspaceFolder, additions: VertecTranslation[]): Promise<number> {
+    const uri = vscode.Uri.joinPath(folder.uri, GLOSSARY_FILE);
+
+    let data: unknown = [];
+    let translations: VertecTranslation[] = [];
+    try {
+        ({ data, translations } = parseGlossary(await vscode.workspace.fs.readFile(uri)));
+    } catch (error) {
+        if (!(error instanceof vscode.FileSystemError)) {
+            throw error;
+        }
+    }
+
+    let addedCount = 0;
+    additions.forEach(addition => {
+        const key = addition.NVD?.trim().toLowerCase();
+        const existing = key ? translations.findIndex(entry => entry.NVD?.trim().toLowerCase() === key) : -1;
+        if (existing >= 0) {
+            translations[existing] = { ...translations[existing], ...addition };
+        } else {
+            translations.push(addition);
+            addedCount++;
+        }
+    });
+
+    const content = Array.isArray(data) ? translations : { ...(data as object), translations };
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(content, null, 4) + '\n', 'utf8'));
+    reloadGlossary();
+
+    return addedCount;
+}
+
+/**
+ * Asks for the German and English text of a new translation and adds it to the glossary file
+ * of the workspace. The selected text is proposed as German text.
+ */
+export async function addTranslation() {
+    try {
+        const folder = await pickGlossaryFolder();
+        if (!folder) {
+            vscode.window.showWarningMessage('Please open a workspace folder first.');
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const selectedText = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection).trim() : '';
+
+        const german = await vscode.window.showInputBox({
+            prompt: 'German text (NVD)',
+            value: selectedText,
+            validateInput: value => value.trim() ? null : 'Please enter the German text.'
+        });
+        if (german === undefined) {
+            return;
+        }
+
+        const english = await vscode.window.showInputBox({
+            prompt: `English text (NVE) for "${german.trim()}"`,
+            validateInput: value => value.trim() ? null : 'Please enter the English text.'
+        });
+        if (english === undefined) {
+            return;
+        }
+
+        const added = await writeGlossaryEntries(folder, [{ NVD: german.trim(), NVE: english.trim() }]);
+        vscode.window.showInformationMessage(
+            `${added ? 'Added' : 'Updated'} "${german.trim()}" in ${vscode.workspace.asRelativePath(vscode.Uri.joinPath(folder.uri, GLOSSARY_FILE))}.`
+        );
+
+    } catch (error) {
+        console.error('Error adding the translation:', error);
+        vscode.window.showErrorMessage('An error occured while adding the translation to the glossary.');
+    }
+}
+
+/**
+ * Activates the glossary by watching the glossary files of the workspace.
+ */
+export function activateGlossary(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${GLOSSARY_FILE}`);
+
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(reloadGlossary),
+        watcher.onDidChange(reloadGlossary),
+        watcher.onDidDelete(reloadGlossary),
+        vscode.workspace.onDidChangeWorkspaceFolders(reloadGlossary)
+    );
+}
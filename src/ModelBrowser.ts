@@ -1,13 +1,24 @@
 import * as vscode from 'vscode';
-import { VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, getModel, resolveInheritance, getAssociationRoleInfo } from './DataProvider';
+import { VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, getModel, resolveInheritance, getAssociationRoleInfo, onDidChangeModel } from './DataProvider';
+import { getActiveModelProfile } from './ModelProfiles';
 
 /**
  * Show the model browser.
  */
 export async function modelBrowse() {
+    const profile = getActiveModelProfile();
+    let classes: VertecClass[] = [];
+
+    // Use the new model data for the next class list, if it is refreshed while browsing.
+    const subscription = onDidChangeModel(async changedProfile => {
+        if (changedProfile.name === profile.name) {
+            classes = await getModel<VertecClass>(false, profile);
+        }
+    });
+
     try {
         // Load data (uses the cache, if available)
-        const classes = await getModel<VertecClass>(false);
+        classes = await getModel<VertecClass>(false, profile);
 
         if (!classes || classes.length === 0) {
             vscode.window.showWarningMessage('No classes found.');
@@ -21,7 +32,7 @@ export async function modelBrowse() {
             // Step 1 - choose the class
             const classItems = classes.map(cls => ({
                 label: `${cls.name} | ${cls.name_alt}`,
-                description: `(ID: ${cls.class_id})`,
+                description: `(ID: ${cls.class_id})${cls.is_custom ? ' | custom' : ''}`,
                 detail: `${cls.description} | DB: ${cls.table_mapping} | Parent: ${cls.superclass?.name} | Persistent: ${cls.is_persistent ? 'Yes' : 'No'}`,
                 data: cls
             }));
@@ -53,6 +64,8 @@ export async function modelBrowse() {
     } catch (error) {
         console.error('Error loading the data:', error);
         vscode.window.showErrorMessage('An error occured while loading the model data.');
+    } finally {
+        subscription.dispose();
     }
 }
 
@@ -86,7 +99,7 @@ async function showClassDetails(vertecClass: VertecClass, allClasses: VertecClas
             if (member.sourceClass === vertecClass.name || member.sourceClass === vertecClass.name_alt) {
                 items.push({
                     label: `${member.name} | ${member.name_alt}`,
-                    description: `${member.member_type} | Length: ${member.length}`,
+                    description: `${member.member_type} | Length: ${member.length}${member.is_custom ? ' | custom' : ''}`,
                     detail: `${member.description || '-/-'} | Persistent: ${member.is_derived ? 'No' : 'Yes'} | Nullable: ${member.is_nullable ? 'Yes' : 'No'} | Indexed: ${member.is_indexed ? 'Yes' : 'No'}`,
                     data: member
                 });
@@ -102,7 +115,7 @@ async function showClassDetails(vertecClass: VertecClass, allClasses: VertecClas
             if (member.sourceClass !== vertecClass.name && member.sourceClass !== vertecClass.name_alt) {
                 items.push({
                     label: `${member.name} | ${member.name_alt}`,
-                    description: `${member.member_type} | Length: ${member.length} (from ${member.sourceClass})`,
+                    description: `${member.member_type} | Length: ${member.length} (from ${member.sourceClass})${member.is_custom ? ' | custom' : ''}`,
                     detail: `${member.description || '-/-'} | Persistent: ${member.is_derived ? 'No' : 'Yes'} | Nullable: ${member.is_nullable ? 'Yes' : 'No'} | Indexed: ${member.is_indexed ? 'Yes' : 'No'}`,
                     data: member
                 });
@@ -125,7 +138,7 @@ async function showClassDetails(vertecClass: VertecClass, allClasses: VertecClas
 
                 items.push({
                     label: `${assoc.perceived_name} | ${assoc.perceived_name_alt}`,
-                    description: `→ ${roleInfo1?.role_class?.name || '-/-'} | ${roleInfo1?.role_class_alt?.name || '-/-'}`,
+                    description: `→ ${roleInfo1?.role_class?.name || '-/-'} | ${roleInfo1?.role_class_alt?.name || '-/-'}${assoc.is_custom ? ' | custom' : ''}`,
                     detail: `${roleInfo2?.role_description || '-/-'} | Link class: ${assoc.association_class?.name || '-/-'} | Persistent: ${assoc.is_derived ? 'No' : 'Yes'} | Multi: ${roleInfo2?.is_role_multi ? 'Yes' : 'No'}`,
                     data: assoc
                 });
@@ -144,7 +157,7 @@ async function showClassDetails(vertecClass: VertecClass, allClasses: VertecClas
 
                 items.push({
                     label: `${assoc.perceived_name} | ${assoc.perceived_name_alt}`,
-                    description: `→ ${roleInfo1?.role_class?.name || '-/-'} | ${roleInfo1?.role_class_alt?.name || '-/-'} (from ${assoc.sourceClass})`,
+                    description: `→ ${roleInfo1?.role_class?.name || '-/-'} | ${roleInfo1?.role_class_alt?.name || '-/-'} (from ${assoc.sourceClass})${assoc.is_custom ? ' | custom' : ''}`,
                     detail: `${roleInfo2?.role_description || '-/-'} | Link class: ${assoc.association_class?.name || '-/-'} | Persistent: ${assoc.is_derived ? 'No' : 'Yes'} | Multi: ${roleInfo2?.is_role_multi ? 'Yes' : 'No'}`,
                     data: assoc
                 });
@@ -395,6 +408,10 @@ function getMemberDetailHtml(member: EnrichedVertecMember): string {
                         <td>Indexed</td>
                         <td><span class="badge ${member.is_indexed ? 'badge-yes' : 'badge-no'}">${member.is_indexed ? 'Yes' : 'No'}</span></td>
                     </tr>
+                    <tr>
+                        <td>Custom</td>
+                        <td><span class="badge ${member.is_custom ? 'badge-yes' : 'badge-no'}">${member.is_custom ? 'Yes' : 'No'}</span></td>
+                    </tr>
                 </tbody>
             </table>
         </div>
@@ -451,6 +468,10 @@ function getAssociationDetailHtml(
                         <td>Persistent</td>
                         <td><span class="badge ${!assoc.is_derived ? 'badge-yes' : 'badge-no'}">${!assoc.is_derived ? 'Yes' : 'No'}</span></td>
                     </tr>
+                    <tr>
+                        <td>Custom</td>
+                        <td><span class="badge ${assoc.is_custom ? 'badge-yes' : 'badge-no'}">${assoc.is_custom ? 'Yes' : 'No'}</span></td>
+                    </tr>
                 </tbody>
             </table>
         </div>
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { VertecClass, VertecClassRef, getModel, getModelCacheStatus } from './DataProvider';
+import { getActiveModelProfile, getModelProfileLabel } from './ModelProfiles';
+
+let outputChannel: vscode.OutputChannel | null = null;
+
+/**
+ * Returns the output channel of the consistency check.
+ */
+function getOutputChannel(): vscode.OutputChannel {
+    outputChannel ??= vscode.window.createOutputChannel('Vertec Model Check');
+    return outputChannel;
+}
+
+/**
+ * Finds superclass, role class and association class references whose class_id is not in the model.
+ */
+function findMissingReferences(classes: VertecClass[]): string[] {
+    const classIds = new Set(classes.map(cls => cls.class_id));
+    const problems: string[] = [];
+
+    const check = (ref: VertecClassRef | undefined, location: string) => {
+        // Associations without link class have no reference.
+        if (ref && ref.class_id && !classIds.has(ref.class_id)) {
+            problems.push(`${location} → "${ref.name}" (class_id ${ref.class_id}) not found`);
+        }
+    };
+
+    classes.forEach(cls => {
+        check(cls.superclass, `${cls.name}.superclass`);
+        cls.associations?.forEach(assoc => {
+            const location = `${cls.name}.${assoc.perceived_name}`;
+            check(assoc.role1_class, `${location}.role1_class`);
+            check(assoc.role1_class_alt, `${location}.role1_class_alt`);
+            check(assoc.role2_class, `${location}.role2_class`);
+            check(assoc.role2_class_alt, `${location}.role2_class_alt`);
+            check(assoc.association_class, `${location}.association_class`);
+        });
+    });
+
+    return problems;
+}
+
+/**
+ * Finds member names which occur more than once in a class. As the names are lowercased,
+ * members differing only in case hide each other.
+ */
+function findDuplicateMembers(classes: VertecClass[]): string[] {
+    const problems: string[] = [];
+
+    classes.forEach(cls => {
+        (['name', 'name_alt'] as const).forEach(property => {
+            const counts = new Map<string, number>();
+            cls.members?.forEach(member => {
+                const name = member[property]?.toLowerCase();
+                if (name) {
+                    counts.set(name, (counts.get(name) ?? 0) + 1);
+                }
+            });
+            counts.forEach((count, name) => {
+                if (count > 1) {
+                    problems.push(`${cls.name}: ${property} "${name}" occurs ${count} times`);
+                }
+            });
+        });
+    });
+
+    return problems;
+}
+
+/**
+ * Finds associations without english counterpart, their english names are missing.
+ */
+function findAssociationsWithoutEnglish(classes: VertecClass[]): string[] {
+    const problems: string[] = [];
+
+    classes.forEach(cls => {
+        cls.associations?.forEach(assoc => {
+            if (!assoc.is_custom && !assoc.role1_class_alt && !assoc.role2_class_alt) {
+                problems.push(`${cls.name}.${assoc.perceived_name} (association "${assoc.name}")`);
+            }
+        });
+    });
+
+    return problems;
+}
+
+/**
+ * Validates the model of the active profile and lists all anomalies in an output channel:
+ * missing class references, duplicate member names and associations without english counterpart.
+ */
+export async function checkModelConsistency() {
+    try {
+        const profile = getActiveModelProfile();
+        const classes = await getModel<VertecClass>(false, profile);
+        const metadata = (await getModelCacheStatus(profile)).metadata;
+
+        const channel = getOutputChannel();
+        channel.clear();
+        channel.appendLine(`Vertec model consistency check: ${getModelProfileLabel(profile)}`);
+        channel.appendLine(`${classes.length} classes from ${metadata?.sourceUrl ?? profile.url}`);
+
+        const sections: [string, string[]][] = [
+            ['Missing class references', findMissingReferences(classes)],
+            ['Duplicate member names', findDuplicateMembers(classes)]
+        ];
+        // Without english model, no association has english names.
+        if (!metadata || metadata.languages.includes('en')) {
+            sections.push(['Associations without english counterpart', findAssociationsWithoutEnglish(classes)]);
+        } else {
+            channel.appendLine('The model contains no english data, associations were not checked for english names.');
+        }
+
+        let problemCount = 0;
+        sections.forEach(([title, problems]) => {
+            channel.appendLine('');
+            channel.appendLine(`${title} (${problems.length}):`);
+            problems.forEach(problem => channel.appendLine(`  ${problem}`));
+            problemCount += problems.length;
+        });
+
+        channel.appendLine('');
+        channel.appendLine(problemCount === 0 ? 'No problems found.' : `${problemCount} problems found.`);
+        channel.show(true);
+
+        if (problemCount === 0) {
+            vscode.window.showInformationMessage('The model is consistent.');
+        } else {
+            vscode.window.showWarningMessage(`Found ${problemCount} problems in the model, see the output for details.`);
+        }
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error checking the model:', error);
+        vscode.window.showErrorMessage('An error occured while checking the model.');
+    }
+}
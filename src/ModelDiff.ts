@@ -0,0 +1,567 @@
+import * as vscode from 'vscode';
+import { VertecClass, VertecClassRef, VertecMember, VertecAssociation, getModel, getRawModel, loadModelSnapshot } from './DataProvider';
+import { ModelProfile, getActiveModelProfile, getModelProfileLabel, getModelProfiles } from './ModelProfiles';
+import { createNonce, escapeHtml } from './WebviewHtml';
+
+export type DiffKind = 'added' | 'removed' | 'renamed' | 'changed';
+
+/**
+ * A changed property of a class, member or association.
+ */
+export interface PropertyChange {
+    property: string;
+    before: string;
+    after: string;
+}
+
+/**
+ * Difference of a member or an association.
+ */
+export interface EntryDiff {
+    kind: DiffKind;
+    name: string;
+    previousName?: string;  // Only for renamed entries.
+    changes: PropertyChange[];
+}
+
+/**
+ * Difference of a class including its own members and associations.
+ */
+export interface ClassDiff {
+    kind: DiffKind;
+    name: string;
+    name_alt: string;
+    previousName?: string;  // Only for renamed classes.
+    changes: PropertyChange[];
+    members: EntryDiff[];
+    associations: EntryDiff[];
+}
+
+export interface ModelDiff {
+    baseLabel: string;      // The older model.
+    targetLabel: string;    // The newer model.
+    classes: ClassDiff[];
+}
+
+// Compared properties, in the order shown in the report.
+const CLASS_PROPERTIES: (keyof VertecClass)[] = [
+    'name', 'name_alt', 'superclass', 'table_mapping', 'is_abstract', 'is_persistent', 'is_hidden'
+];
+const MEMBER_PROPERTIES: (keyof VertecMember)[] = [
+    'name', 'name_alt', 'member_type', 'length', 'is_nullable', 'is_derived', 'is_indexed'
+];
+const ASSOCIATION_PROPERTIES: (keyof VertecAssociation)[] = [
+    'perceived_name', 'perceived_name_alt', 'association_class', 'is_derived',
+    'role1_class', 'role2_class', 'role1_name', 'role2_name',
+    'is_role1_multi', 'is_role2_multi', 'is_role1_navigable', 'is_role2_navigable',
+    'is_role1_composite', 'is_role2_composite'
+];
+
+/**
+ * Formats a property value for the report.
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') {
+        return '-/-';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'Yes' : 'No';
+    }
+    if (typeof value === 'object' && 'name' in value) {
+        return String((value as VertecClassRef).name);
+    }
+
+    return String(value);
+}
+
+/**
+ * Compares the given properties of two objects.
+ */
+function compareProperties<T>(before: T, after: T, properties: (keyof T)[]): PropertyChange[] {
+    const changes: PropertyChange[] = [];
+    properties.forEach(property => {
+        const beforeValue = formatValue(before[property]);
+        const afterValue = formatValue(after[property]);
+        if (beforeValue !== afterValue) {
+            changes.push({ property: String(property), before: beforeValue, after: afterValue });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Compares two lists of members or associations. Entries are matched by their german name first.
+ * Remaining entries with the same english name are reported as renamed.
+ */
+function compareEntries<T>(
+    before: T[],
+    after: T[],
+    getName: (entry: T) => string,
+    getAltName: (entry: T) => string | undefined,
+    properties: (keyof T)[]
+): EntryDiff[] {
+    const diffs: EntryDiff[] = [];
+    const unmatchedBefore = new Map<string, T>();
+    before.forEach(entry => unmatchedBefore.set(getName(entry).toLowerCase(), entry));
+
+    const unmatchedAfter: T[] = [];
+    after.forEach(entry => {
+        const key = getName(entry).toLowerCase();
+        const previous = unmatchedBefore.get(key);
+        if (!previous) {
+            unmatchedAfter.push(entry);
+            return;
+        }
+
+        unmatchedBefore.delete(key);
+        const changes = compareProperties(previous, entry, properties);
+        if (changes.length > 0) {
+            diffs.push({ kind: 'changed', name: getName(entry), changes });
+        }
+    });
+
+    unmatchedAfter.forEach(entry => {
+        const altName = getAltName(entry)?.toLowerCase();
+        const previous = altName
+            ? [...unmatchedBefore.entries()].find(([, candidate]) => getAltName(candidate)?.toLowerCase() === altName)
+            : undefined;
+
+        if (previous) {
+            unmatchedBefore.delete(previous[0]);
+            diffs.push({
+                kind: 'renamed',
+                name: getName(entry),
+                previousName: getName(previous[1]),
+                changes: compareProperties(previous[1], entry, properties)
+            });
+        } else {
+            diffs.push({ kind: 'added', name: getName(entry), changes: [] });
+        }
+    });
+
+    unmatchedBefore.forEach(entry => diffs.push({ kind: 'removed', name: getName(entry), changes: [] }));
+
+    return diffs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Compares two models. Classes are matched by their id, so renamed classes are detected.
+ * Only the own members and associations of each class are compared, inherited ones
+ * are reported at the class which defines them.
+ */
+export function diffModels(
+    base: VertecClass[],
+    target: VertecClass[],
+    baseLabel: string,
+    targetLabel: string
+): ModelDiff {
+    const classes: ClassDiff[] = [];
+    const baseById = new Map<number, VertecClass>();
+    base.forEach(cls => baseById.set(cls.class_id, cls));
+
+    target.forEach(cls => {
+        const previous = baseById.get(cls.class_id);
+        if (!previous) {
+            classes.push({
+                kind: 'added',
+                name: cls.name,
+                name_alt: cls.name_alt,
+                changes: [],
+                members: (cls.members ?? []).map(member => ({ kind: 'added', name: member.name, changes: [] })),
+                associations: (cls.associations ?? []).map(assoc => ({ kind: 'added', name: assoc.perceived_name, changes: [] }))
+            });
+            return;
+        }
+
+        baseById.delete(cls.class_id);
+        const changes = compareProperties(previous, cls, CLASS_PROPERTIES);
+        const members = compareEntries(
+            previous.members ?? [], cls.members ?? [],
+            member => member.name, member => member.name_alt, MEMBER_PROPERTIES
+        );
+        const associations = compareEntries(
+            previous.associations ?? [], cls.associations ?? [],
+            assoc => assoc.perceived_name, assoc => assoc.perceived_name_alt, ASSOCIATION_PROPERTIES
+        );
+
+        if (changes.length > 0 || members.length > 0 || associations.length > 0) {
+            const isRenamed = previous.name !== cls.name;
+            classes.push({
+                kind: isRenamed ? 'renamed' : 'changed',
+                name: cls.name,
+                name_alt: cls.name_alt,
+                previousName: isRenamed ? previous.name : undefined,
+                changes,
+                members,
+                associations
+            });
+        }
+    });
+
+    baseById.forEach(cls => classes.push({
+        kind: 'removed',
+        name: cls.name,
+        name_alt: cls.name_alt,
+        changes: [],
+        members: [],
+        associations: []
+    }));
+
+    return {
+        baseLabel,
+        targetLabel,
+        classes: classes.sort((a, b) => a.name.localeCompare(b.name))
+    };
+}
+
+/**
+ * Counts the classes, members and associations per kind of difference.
+ */
+function getSummary(diff: ModelDiff): { label: string; counts: Record<DiffKind, number> }[] {
+    const createCounts = (): Record<DiffKind, number> => ({ added: 0, removed: 0, renamed: 0, changed: 0 });
+    const classCounts = createCounts();
+    const memberCounts = createCounts();
+    const associationCounts = createCounts();
+
+    diff.classes.forEach(cls => {
+        classCounts[cls.kind]++;
+        cls.members.forEach(member => memberCounts[member.kind]++);
+        cls.associations.forEach(assoc => associationCounts[assoc.kind]++);
+    });
+
+    return [
+        { label: 'Classes', counts: classCounts },
+        { label: 'Members', counts: memberCounts },
+        { label: 'Associations', counts: associationCounts }
+    ];
+}
+
+/**
+ * Returns the heading of an entry, e.g. "Projekt (renamed from Projekte)".
+ */
+function getTitle(entry: { kind: DiffKind; name: string; previousName?: string }): string {
+    return entry.kind === 'renamed' ? `${entry.name} (renamed from ${entry.previousName})` : entry.name;
+}
+
+/**
+ * Renders the model diff as Markdown report.
+ */
+export function renderMarkdown(diff: ModelDiff): string {
+    const lines: string[] = [
+        '# Vertec model changes',
+        '',
+        `From **${diff.baseLabel}** to **${diff.targetLabel}**.`,
+        '',
+        '| | Added | Removed | Renamed | Changed |',
+        '|---|---|---|---|---|'
+    ];
+    getSummary(diff).forEach(({ label, counts }) => {
+        lines.push(`| ${label} | ${counts.added} | ${counts.removed} | ${counts.renamed} | ${counts.changed} |`);
+    });
+
+    const renderChanges = (changes: PropertyChange[], indent: string) => {
+        changes.forEach(change => lines.push(`${indent}- \`${change.property}\`: ${change.before} → ${change.after}`));
+    };
+    const renderEntries = (title: string, entries: EntryDiff[]) => {
+        if (entries.length === 0) {
+            return;
+        }
+        lines.push('', `**${title}**`, '');
+        entries.forEach(entry => {
+            lines.push(`- ${entry.kind}: \`${getTitle(entry)}\``);
+            renderChanges(entry.changes, '  ');
+        });
+    };
+
+    diff.classes.forEach(cls => {
+        lines.push('', `## ${getTitle(cls)} | ${cls.name_alt} (${cls.kind})`);
+        if (cls.changes.length > 0) {
+            lines.push('');
+            renderChanges(cls.changes, '');
+        }
+        renderEntries('Members', cls.members);
+        renderEntries('Associations', cls.associations);
+    });
+
+    if (diff.classes.length === 0) {
+        lines.push('', 'No differences found.');
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders the model diff as HTML for the web view panel. Only the script with the nonce may run.
+ */
+function renderHtml(diff: ModelDiff, nonce: string): string {
+    const summaryRows = getSummary(diff).map(({ label, counts }) => `<tr>
+                    <td>${label}</td>
+                    <td>${counts.added}</td>
+                    <td>${counts.removed}</td>
+                    <td>${counts.renamed}</td>
+                    <td>${counts.changed}</td>
+                </tr>`).join('\n');
+
+    const renderChanges = (changes: PropertyChange[]) => changes.length === 0 ? '' : `<ul class="changes">${
+        changes.map(change => `<li><code>${escapeHtml(change.property)}</code>: ${escapeHtml(change.before)} → ${escapeHtml(change.after)}</li>`).join('')
+    }</ul>`;
+    const renderEntries = (title: string, entries: EntryDiff[]) => entries.length === 0 ? '' : `<h3>${title}</h3>
+            <ul>${entries.map(entry => `<li><span class="badge badge-${entry.kind}">${entry.kind}</span> ${escapeHtml(getTitle(entry))}${renderChanges(entry.changes)}</li>`).join('')}</ul>`;
+
+    const classSections = diff.classes.map(cls => `<details class="class" ${cls.kind === 'removed' ? '' : 'open'}>
+            <summary><span class="badge badge-${cls.kind}">${cls.kind}</span> ${escapeHtml(getTitle(cls))} | ${escapeHtml(cls.name_alt)}</summary>
+            ${renderChanges(cls.changes)}
+            ${renderEntries('Members', cls.members)}
+            ${renderEntries('Associations', cls.associations)}
+        </details>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Vertec Model Diff</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        h1 {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 10px;
+        }
+        h3 {
+            font-size: 1em;
+            margin: 10px 0 5px 0;
+        }
+        table {
+            border-collapse: collapse;
+            margin: 15px 0;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 8px 16px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        .class {
+            margin: 8px 0;
+            padding: 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .class summary {
+            cursor: pointer;
+            font-weight: 600;
+        }
+        .changes {
+            color: var(--vscode-descriptionForeground);
+        }
+        .badge {
+            display: inline-block;
+            padding: 1px 6px;
+            border-radius: 3px;
+            font-size: 0.8em;
+            color: white;
+        }
+        .badge-added {
+            background-color: #28a745;
+        }
+        .badge-removed {
+            background-color: #dc3545;
+        }
+        .badge-renamed {
+            background-color: #007acc;
+        }
+        .badge-changed {
+            background-color: #d39e00;
+        }
+    </style>
+</head>
+<body>
+    <h1>Vertec model changes</h1>
+    <p>From <strong>${escapeHtml(diff.baseLabel)}</strong> to <strong>${escapeHtml(diff.targetLabel)}</strong>.</p>
+    <button id="exportMarkdown">Export as Markdown</button>
+    <table>
+        <thead>
+            <tr><th></th><th>Added</th><th>Removed</th><th>Renamed</th><th>Changed</th></tr>
+        </thead>
+        <tbody>
+            ${summaryRows}
+        </tbody>
+    </table>
+    ${classSections || '<p>No differences found.</p>'}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        document.getElementById('exportMarkdown').addEventListener('click', () => {
+            vscode.postMessage({ command: 'exportMarkdown' });
+        });
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Asks for the model to compare the model of the active profile with:
+ * another profile, a snapshot file or an url.
+ */
+export async function pickComparisonModel(
+    activeProfile: ModelProfile,
+    placeHolder = `Compare the model of "${getModelProfileLabel(activeProfile)}" with ...`
+): Promise<{ label: string; classes: VertecClass[] } | undefined> {
+    const snapshotItem = { label: '$(file) Snapshot file ...', profile: undefined };
+    const urlItem = { label: '$(globe) Url ...', profile: undefined };
+    const profileItems = getModelProfiles()
+        .filter(profile => profile.name !== activeProfile.name)
+        .map(profile => ({ label: `$(symbol-class) ${getModelProfileLabel(profile)}`, description: profile.url, profile }));
+
+    const selection = await vscode.window.showQuickPick<{ label: string; description?: string; profile?: ModelProfile }>(
+        [...profileItems, snapshotItem, urlItem],
+        { placeHolder }
+    );
+    if (!selection) {
+        return undefined;
+    }
+
+    if (selection.profile) {
+        return {
+            label: getModelProfileLabel(selection.profile),
+            classes: await getModel<VertecClass>(false, selection.profile)
+        };
+    }
+
+    let source: string | undefined;
+    if (selection === snapshotItem) {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'JSON': ['json'] },
+            openLabel: 'Compare'
+        });
+        source = files?.[0].toString();
+    } else {
+        source = await vscode.window.showInputBox({
+            prompt: 'Url of the model to compare with',
+            placeHolder: 'https://vertec.example.com/api/model'
+        });
+    }
+
+    return source ? { label: source, classes: await loadModelSnapshot(source) } : undefined;
+}
+
+/**
+ * Lets the user save the markdown report.
+ */
+async function exportMarkdown(diff: ModelDiff): Promise<void> {
+    const target = await vscode.window.showSaveDialog({
+        filters: { 'Markdown': ['md'] },
+        saveLabel: 'Export report'
+    });
+    if (!target) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(renderMarkdown(diff), 'utf8'));
+    vscode.window.showInformationMessage(`Report exported to ${target.fsPath}.`);
+}
+
+/**
+ * Compares the model of the active profile with another profile, a snapshot or an url
+ * and shows the differences as upgrade impact report.
+ */
+export async function compareModels() {
+    try {
+        const activeProfile = getActiveModelProfile();
+        const comparison = await pickComparisonModel(activeProfile);
+        if (!comparison) {
+            return;
+        }
+        const activeLabel = getModelProfileLabel(activeProfile);
+        const activeClasses = await getModel<VertecClass>(false, activeProfile);
+
+        // The direction defines what counts as added and removed.
+        const direction = await vscode.window.showQuickPick([
+            { label: `From ${comparison.label} to ${activeLabel}`, activeIsNewer: true },
+            { label: `From ${activeLabel} to ${comparison.label}`, activeIsNewer: false }
+        ], { placeHolder: 'Which changes do you want to see?' });
+        if (!direction) {
+            return;
+        }
+
+        const diff = direction.activeIsNewer
+            ? diffModels(comparison.classes, activeClasses, comparison.label, activeLabel)
+            : diffModels(activeClasses, comparison.classes, activeLabel, comparison.label);
+
+        const panel = vscode.window.createWebviewPanel(
+            'vertecModelDiff',
+            'Vertec Model Diff',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true
+            }
+        );
+        panel.webview.html = renderHtml(diff, createNonce());
+        panel.webview.onDidReceiveMessage(async message => {
+            if (message.command === 'exportMarkdown') {
+                try {
+                    await exportMarkdown(diff);
+                } catch (error) {
+                    console.error('Error exporting the report:', error);
+                    vscode.window.showErrorMessage('An error occured while exporting the report.');
+                }
+            }
+        });
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error comparing the models:', error);
+        vscode.window.showErrorMessage('An error occured while comparing the models.');
+    }
+}
+
+/**
+ * Saves the model of the active profile without the workspace overlay as snapshot file, e.g. before an upgrade.
+ * The snapshot can be compared with later and used as local model file.
+ */
+export async function saveModelSnapshot() {
+    try {
+        const profile = getActiveModelProfile();
+        const classes = await getRawModel<VertecClass>(profile);
+
+        const target = await vscode.window.showSaveDialog({
+            filters: { 'JSON': ['json'] },
+            saveLabel: 'Save snapshot'
+        });
+        if (!target) {
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(classes, null, 2), 'utf8'));
+        vscode.window.showInformationMessage(`Saved ${classes.length} classes of "${getModelProfileLabel(profile)}".`);
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error saving the snapshot:', error);
+        vscode.window.showErrorMessage('An error occured while saving the model snapshot.');
+    }
+}
@@ -0,0 +1,405 @@
+import * as vscode from 'vscode';
+import {
+    VertecClass,
+    EnrichedVertecMember,
+    EnrichedVertecAssociation,
+    getModel,
+    resolveInheritance,
+    getAssociationRoleInfo
+} from './DataProvider';
+import { getActiveModelProfile, getModelProfileLabel } from './ModelProfiles';
+import { escapeHtml } from './WebviewHtml';
+
+type ExportFormat = 'json' | 'csv' | 'markdown' | 'html';
+
+/**
+ * A class prepared for the export, with its own or all (including inherited) members and associations.
+ */
+interface ExportClass {
+    cls: VertecClass;
+    members: EnrichedVertecMember[];
+    associations: EnrichedVertecAssociation[];
+}
+
+/**
+ * Returns the members and associations of a class for the export.
+ */
+function prepareClass(cls: VertecClass, classes: VertecClass[], includeInherited: boolean): ExportClass {
+    const { members, associations } = resolveInheritance(cls, classes);
+    if (includeInherited) {
+        return { cls, members, associations };
+    }
+
+    const isOwn = (sourceClass?: string) => sourceClass === cls.name || sourceClass === cls.name_alt;
+    return {
+        cls,
+        members: members.filter(member => isOwn(member.sourceClass)),
+        associations: associations.filter(assoc => isOwn(assoc.sourceClass))
+    };
+}
+
+/**
+ * Formats a flag for the tables.
+ */
+function yesNo(value: boolean | undefined): string {
+    return value ? 'Yes' : 'No';
+}
+
+/**
+ * Escapes a CSV field, if it contains a separator, a quote or a line break.
+ */
+function csvField(value: unknown): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds a CSV file. Starts with a byte order mark, so Excel detects the umlauts.
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+    return '\ufeff' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Returns the target class of an association, seen from the given class.
+ */
+function getTargetClass(assoc: EnrichedVertecAssociation, cls: VertecClass, classes: VertecClass[]) {
+    const roleInfo = getAssociationRoleInfo(assoc, cls, classes);
+    const ownRoleInfo = getAssociationRoleInfo(assoc, cls, classes, true);
+
+    return {
+        name: roleInfo?.role_class?.name,
+        name_alt: roleInfo?.role_class_alt?.name,
+        isMulti: ownRoleInfo?.is_role_multi,
+        description: ownRoleInfo?.role_description
+    };
+}
+
+/**
+ * Creates the CSV tables for classes, members and associations.
+ */
+function exportCsv(exportClasses: ExportClass[], classes: VertecClass[]): Map<string, string> {
+    const files = new Map<string, string>();
+
+    files.set('classes.csv', toCsv(
+        ['class_id', 'name', 'name_alt', 'superclass', 'table_mapping', 'abstract', 'persistent', 'custom', 'description'],
+        exportClasses.map(({ cls }) => [
+            cls.class_id, cls.name, cls.name_alt, cls.superclass?.name, cls.table_mapping,
+            yesNo(cls.is_abstract), yesNo(cls.is_persistent), yesNo(cls.is_custom), cls.description
+        ])
+    ));
+
+    files.set('members.csv', toCsv(
+        ['class', 'name', 'name_alt', 'member_type', 'length', 'persistent', 'nullable', 'indexed', 'custom', 'source_class', 'description'],
+        exportClasses.flatMap(({ cls, members }) => members.map(member => [
+            cls.name, member.name, member.name_alt, member.member_type, member.length,
+            yesNo(!member.is_derived), yesNo(member.is_nullable), yesNo(member.is_indexed), yesNo(member.is_custom),
+            member.sourceClass, member.description
+        ]))
+    ));
+
+    files.set('associations.csv', toCsv(
+        ['class', 'name', 'name_alt', 'target_class', 'multi', 'persistent', 'link_class', 'custom', 'source_class', 'description'],
+        exportClasses.flatMap(({ cls, associations }) => associations.map(assoc => {
+            const target = getTargetClass(assoc, cls, classes);
+            return [
+                cls.name, assoc.perceived_name, assoc.perceived_name_alt, target.name, yesNo(target.isMulti),
+                yesNo(!assoc.is_derived), assoc.association_class?.name, yesNo(assoc.is_custom),
+                assoc.sourceClass, target.description ?? assoc.description
+            ];
+        }))
+    ));
+
+    return files;
+}
+
+/**
+ * Escapes text for Markdown tables.
+ */
+function markdownCell(value: unknown): string {
+    const text = value === undefined || value === null || value === '' ? '-/-' : String(value);
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Creates the Markdown documentation: an index and one page per class.
+ * Superclasses and association targets link to their page, if they are part of the export.
+ */
+function exportMarkdown(exportClasses: ExportClass[], classes: VertecClass[], title: string): Map<string, string> {
+    const files = new Map<string, string>();
+    const exported = new Set(exportClasses.map(({ cls }) => cls.name));
+    const link = (name?: string) => name && exported.has(name) ? `[${name}](${name}.md)` : markdownCell(name);
+
+    const index = [
+        `# ${title}`,
+        '',
+        '| Class | English | Description |',
+        '|---|---|---|',
+        ...exportClasses.map(({ cls }) => `| ${link(cls.name)} | ${markdownCell(cls.name_alt)} | ${markdownCell(cls.description)} |`)
+    ];
+    files.set('index.md', index.join('\n') + '\n');
+
+    exportClasses.forEach(({ cls, members, associations }) => {
+        const lines = [
+            `# ${cls.name} | ${cls.name_alt}${cls.is_custom ? ' (custom)' : ''}`,
+            '',
+            `[Index](index.md)`,
+            ''
+        ];
+        if (cls.description) {
+            lines.push(cls.description, '');
+        }
+        lines.push(
+            `- **ID:** ${cls.class_id}`,
+            `- **Superclass:** ${link(cls.superclass?.name)}`,
+            `- **DB:** ${markdownCell(cls.table_mapping)}`,
+            `- **Persistent:** ${yesNo(cls.is_persistent)}`,
+            `- **Abstract:** ${yesNo(cls.is_abstract)}`
+        );
+
+        if (members.length > 0) {
+            lines.push(
+                '', '## Members', '',
+                '| Name | English | Type | Length | Persistent | Nullable | Source | Description |',
+                '|---|---|---|---|---|---|---|---|',
+                ...members.map(member => `| ${markdownCell(member.name)}${member.is_custom ? ' (custom)' : ''} | ${markdownCell(member.name_alt)} | ${markdownCell(member.member_type)} | ${markdownCell(member.length)} | ${yesNo(!member.is_derived)} | ${yesNo(member.is_nullable)} | ${markdownCell(member.sourceClass)} | ${markdownCell(member.description)} |`)
+            );
+        }
+
+        if (associations.length > 0) {
+            lines.push(
+                '', '## Associations', '',
+                '| Name | English | Class | Multi | Persistent | Source | Description |',
+                '|---|---|---|---|---|---|---|',
+                ...associations.map(assoc => {
+                    const target = getTargetClass(assoc, cls, classes);
+                    return `| ${markdownCell(assoc.perceived_name)}${assoc.is_custom ? ' (custom)' : ''} | ${markdownCell(assoc.perceived_name_alt)} | ${link(target.name)} | ${yesNo(target.isMulti)} | ${yesNo(!assoc.is_derived)} | ${markdownCell(assoc.sourceClass)} | ${markdownCell(target.description)} |`;
+                })
+            );
+        }
+
+        files.set(`${cls.name}.md`, lines.join('\n') + '\n');
+    });
+
+    return files;
+}
+
+/**
+ * Escapes text for the html documentation.
+ */
+function htmlText(value: unknown): string {
+    return escapeHtml(value === undefined || value === null || value === '' ? '-/-' : String(value));
+}
+
+/**
+ * Wraps the content of a documentation page in a html document.
+ */
+function htmlPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${htmlText(title)}</title>
+    <style>
+        body { font-family: sans-serif; margin: 20px; }
+        table { border-collapse: collapse; width: 100%; margin: 15px 0; }
+        th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #ddd; vertical-align: top; }
+        th { background-color: #f3f3f3; }
+    </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds a html table.
+ */
+function htmlTable(header: string[], rows: string[][]): string {
+    return `<table>
+    <thead><tr>${header.map(cell => `<th>${cell}</th>`).join('')}</tr></thead>
+    <tbody>
+${rows.map(row => `        <tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n')}
+    </tbody>
+</table>`;
+}
+
+/**
+ * Creates the html documentation: an index and one page per class, like the Markdown documentation.
+ */
+function exportHtml(exportClasses: ExportClass[], classes: VertecClass[], title: string): Map<string, string> {
+    const files = new Map<string, string>();
+    const exported = new Set(exportClasses.map(({ cls }) => cls.name));
+    const link = (name?: string) => name && exported.has(name)
+        ? `<a href="${encodeURIComponent(name)}.html">${htmlText(name)}</a>`
+        : htmlText(name);
+
+    files.set('index.html', htmlPage(title, `<h1>${htmlText(title)}</h1>
+${htmlTable(
+        ['Class', 'English', 'Description'],
+        exportClasses.map(({ cls }) => [link(cls.name), htmlText(cls.name_alt), htmlText(cls.description)])
+    )}`));
+
+    exportClasses.forEach(({ cls, members, associations }) => {
+        const parts = [
+            `<h1>${htmlText(cls.name)} | ${htmlText(cls.name_alt)}${cls.is_custom ? ' (custom)' : ''}</h1>`,
+            '<p><a href="index.html">Index</a></p>',
+            cls.description ? `<p>${htmlText(cls.description)}</p>` : '',
+            `<ul>
+    <li><strong>ID:</strong> ${cls.class_id}</li>
+    <li><strong>Superclass:</strong> ${link(cls.superclass?.name)}</li>
+    <li><strong>DB:</strong> ${htmlText(cls.table_mapping)}</li>
+    <li><strong>Persistent:</strong> ${yesNo(cls.is_persistent)}</li>
+    <li><strong>Abstract:</strong> ${yesNo(cls.is_abstract)}</li>
+</ul>`
+        ];
+
+        if (members.length > 0) {
+            parts.push('<h2>Members</h2>', htmlTable(
+                ['Name', 'English', 'Type', 'Length', 'Persistent', 'Nullable', 'Source', 'Description'],
+                members.map(member => [
+                    `${htmlText(member.name)}${member.is_custom ? ' (custom)' : ''}`, htmlText(member.name_alt),
+                    htmlText(member.member_type), htmlText(member.length), yesNo(!member.is_derived),
+                    yesNo(member.is_nullable), htmlText(member.sourceClass), htmlText(member.description)
+                ])
+            ));
+        }
+
+        if (associations.length > 0) {
+            parts.push('<h2>Associations</h2>', htmlTable(
+                ['Name', 'English', 'Class', 'Multi', 'Persistent', 'Source', 'Description'],
+                associations.map(assoc => {
+                    const target = getTargetClass(assoc, cls, classes);
+                    return [
+                        `${htmlText(assoc.perceived_name)}${assoc.is_custom ? ' (custom)' : ''}`, htmlText(assoc.perceived_name_alt),
+                        link(target.name), yesNo(target.isMulti), yesNo(!assoc.is_derived),
+                        htmlText(assoc.sourceClass), htmlText(target.description)
+                    ];
+                })
+            ));
+        }
+
+        files.set(`${cls.name}.html`, htmlPage(`${cls.name} | ${cls.name_alt}`, parts.filter(Boolean).join('\n')));
+    });
+
+    return files;
+}
+
+/**
+ * Creates the raw JSON snapshot. With inherited members, each class contains the resolved
+ * members and associations including their source class.
+ */
+function exportJson(exportClasses: ExportClass[], includeInherited: boolean): Map<string, string> {
+    const data = exportClasses.map(({ cls, members, associations }) => includeInherited
+        ? {
+            ...cls,
+            members: members.map(({ completionKind: _completionKind, ...member }) => member),
+            associations: associations.map(({ completionKind: _completionKind, ...assoc }) => assoc)
+        }
+        : cls);
+
+    return new Map([['model.json', JSON.stringify(data, null, 2)]]);
+}
+
+/**
+ * Exports the model of the active profile (all classes or a selection) to JSON, CSV tables
+ * or a Markdown / html documentation with one page per class.
+ */
+export async function exportModel() {
+    try {
+        const profile = getActiveModelProfile();
+        const classes = await getModel<VertecClass>(false, profile);
+        if (!classes || classes.length === 0) {
+            vscode.window.showWarningMessage('No classes found.');
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick<{ label: string; detail: string; format: ExportFormat }>([
+            { label: 'JSON', detail: 'Raw model snapshot (model.json)', format: 'json' },
+            { label: 'CSV', detail: 'Tables for classes, members and associations', format: 'csv' },
+            { label: 'Markdown', detail: 'Documentation with one page per class', format: 'markdown' },
+            { label: 'HTML', detail: 'Documentation with one page per class', format: 'html' }
+        ], { placeHolder: 'Select the export format ...' });
+        if (!format) {
+            return;
+        }
+
+        // All classes or a selection.
+        const scope = await vscode.window.showQuickPick(
+            ['All classes', 'Select classes ...'],
+            { placeHolder: 'Which classes do you want to export?' }
+        );
+        if (!scope) {
+            return;
+        }
+
+        let selectedClasses = classes;
+        if (scope !== 'All classes') {
+            const selection = await vscode.window.showQuickPick(
+                classes.map(cls => ({ label: `${cls.name} | ${cls.name_alt}`, description: `(ID: ${cls.class_id})`, cls })),
+                { placeHolder: 'Select the classes ...', canPickMany: true, matchOnDescription: true }
+            );
+            if (!selection || selection.length === 0) {
+                return;
+            }
+            selectedClasses = selection.map(item => item.cls);
+        }
+
+        const inherited = await vscode.window.showQuickPick(
+            ['Own members only', 'Include inherited members'],
+            { placeHolder: 'Include the members and associations of the superclasses?' }
+        );
+        if (!inherited) {
+            return;
+        }
+        const includeInherited = inherited === 'Include inherited members';
+
+        const folders = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Export here'
+        });
+        if (!folders || folders.length === 0) {
+            return;
+        }
+
+        const exportClasses = [...selectedClasses]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(cls => prepareClass(cls, classes, includeInherited));
+        const title = `Vertec model ${getModelProfileLabel(profile)}`;
+
+        let files: Map<string, string>;
+        switch (format.format) {
+            case 'json':
+                files = exportJson(exportClasses, includeInherited);
+                break;
+            case 'csv':
+                files = exportCsv(exportClasses, classes);
+                break;
+            case 'markdown':
+                files = exportMarkdown(exportClasses, classes, title);
+                break;
+            case 'html':
+                files = exportHtml(exportClasses, classes, title);
+                break;
+        }
+
+        for (const [fileName, content] of files) {
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folders[0], fileName), Buffer.from(content, 'utf8'));
+        }
+
+        vscode.window.showInformationMessage(
+            `Exported ${exportClasses.length} classes to ${files.size} files in ${folders[0].fsPath}.`
+        );
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error exporting the model:', error);
+        vscode.window.showErrorMessage('An error occured while exporting the model.');
+    }
+}
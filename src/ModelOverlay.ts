@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { VertecClass, VertecClassRef, VertecMember, VertecAssociation } from './DataProvider';
+
+/**
+ * Workspace file with customer-specific additions to the model: additional fields (Zusatzfelder),
+ * custom classes and associations. Read from every workspace folder.
+ */
+export const MODEL_OVERLAY_FILE = '.vertec/model-overlay.json';
+
+// Classes can be referenced by name (German or English) or as class reference.
+type OverlayClassRef = string | VertecClassRef;
+
+interface OverlayMember extends Partial<VertecMember> {
+    name: string;
+}
+
+interface OverlayAssociation extends Partial<Omit<VertecAssociation, 'association_class' | 'role1_class' | 'role2_class'>> {
+    perceived_name: string;
+    association_class?: OverlayClassRef;
+    role1_class?: OverlayClassRef;     // Defaults to the class the association is defined on.
+    role2_class?: OverlayClassRef;     // Target class of the association.
+}
+
+/**
+ * Entry of the overlay file. Entries matching an existing class (by class_id or name) add members
+ * and associations to it, other entries define new classes.
+ */
+interface OverlayClass extends Partial<Omit<VertecClass, 'superclass' | 'members' | 'associations'>> {
+    name: string;
+    superclass?: OverlayClassRef;
+    members?: OverlayMember[];
+    associations?: OverlayAssociation[];
+}
+
+const onDidChangeModelOverlayEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires when an overlay file was created, changed or deleted.
+ */
+export const onDidChangeModelOverlay = onDidChangeModelOverlayEmitter.event;
+
+// Loaded overlay entries, null if not loaded yet. The version identifies the loaded content.
+let overlayClasses: OverlayClass[] | null = null;
+let overlayVersion = 0;
+
+// Merged models per model data, so repeated calls return the same array (and model index).
+const MERGED_MODELS = new WeakMap<VertecClass[], { version: number; classes: VertecClass[] }>();
+
+/**
+ * Reads the overlay files of all workspace folders. Invalid files are reported and skipped.
+ */
+async function loadOverlay(): Promise<OverlayClass[]> {
+    const entries: OverlayClass[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const uri = vscode.Uri.joinPath(folder.uri, MODEL_OVERLAY_FILE);
+        let content: Uint8Array;
+        try {
+            content = await vscode.workspace.fs.readFile(uri);
+        } catch {
+            continue;
+        }
+
+        try {
+            const data = JSON.parse(Buffer.from(content).toString('utf8'));
+            const classes: unknown = Array.isArray(data) ? data : data?.classes;
+            if (!Array.isArray(classes)) {
+                throw new Error('Expected a list of classes or an object with "classes".');
+            }
+            entries.push(...classes.filter(entry => typeof entry?.name === 'string'));
+        } catch (error) {
+            console.error('Error reading the model overlay:', error);
+            vscode.window.showErrorMessage(
+                `Invalid model overlay ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`
+            );
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Returns the overlay entries, loads them on first use.
+ */
+async function getOverlay(): Promise<OverlayClass[]> {
+    if (overlayClasses === null) {
+        const version = overlayVersion;
+        const loaded = await loadOverlay();
+        // Ignore the result, if the files changed while loading.
+        if (version !== overlayVersion) {
+            return getOverlay();
+        }
+        overlayClasses = loaded;
+    }
+
+    return overlayClasses;
+}
+
+/**
+ * Merges the overlay entries into the model data. Returns the model data itself without overlay.
+ * Overlay members and associations and new classes are marked with is_custom.
+ */
+export async function applyModelOverlay(classes: VertecClass[]): Promise<VertecClass[]> {
+    const overlay = await getOverlay();
+    if (overlay.length === 0) {
+        return classes;
+    }
+
+    const merged = MERGED_MODELS.get(classes);
+    if (merged?.version === overlayVersion) {
+        return merged.classes;
+    }
+
+    const result = mergeOverlay(classes, overlay);
+    MERGED_MODELS.set(classes, { version: overlayVersion, classes: result });
+
+    return result;
+}
+
+/**
+ * Creates the merged model. The model data itself is not modified.
+ */
+function mergeOverlay(classes: VertecClass[], overlay: OverlayClass[]): VertecClass[] {
+    const result = [...classes];
+    const classesById = new Map<number, number>();
+    const classesByName = new Map<string, number>();
+    const register = (cls: VertecClass, position: number) => {
+        classesById.set(cls.class_id, position);
+        [cls.name, cls.name_alt].forEach(name => {
+            if (name && !classesByName.has(name.toLowerCase())) {
+                classesByName.set(name.toLowerCase(), position);
+            }
+        });
+    };
+    result.forEach(register);
+
+    const findPosition = (ref: OverlayClassRef): number | undefined => typeof ref === 'string'
+        ? classesByName.get(ref.toLowerCase())
+        : classesById.get(ref.class_id) ?? classesByName.get(ref.name.toLowerCase());
+
+    // Add the new classes first, so all entries can reference them.
+    let nextCustomId = Math.min(0, ...classes.map(cls => cls.class_id)) - 1;
+    const positions = overlay.map(entry => {
+        const existing = entry.class_id !== undefined ? classesById.get(entry.class_id) : findPosition(entry.name);
+        if (existing !== undefined) {
+            return existing;
+        }
+
+        const newClass: VertecClass = {
+            name: entry.name,
+            name_alt: entry.name_alt ?? entry.name,
+            class_id: entry.class_id ?? nextCustomId--,
+            table_mapping: entry.table_mapping,
+            is_abstract: entry.is_abstract ?? false,
+            is_persistent: entry.is_persistent ?? true,
+            is_hidden: entry.is_hidden ?? false,
+            description: entry.description,
+            is_custom: true,
+            members: [],
+            associations: []
+        };
+        result.push(newClass);
+        register(newClass, result.length - 1);
+        return result.length - 1;
+    });
+
+    const toRef = (ref: OverlayClassRef | undefined, english = false): VertecClassRef | undefined => {
+        const position = ref !== undefined ? findPosition(ref) : undefined;
+        if (position === undefined) {
+            if (ref !== undefined) {
+                console.warn('Unknown class in the model overlay:', ref);
+            }
+            return undefined;
+        }
+        const cls = result[position];
+        return { name: english ? cls.name_alt : cls.name, class_id: cls.class_id };
+    };
+
+    overlay.forEach((entry, i) => {
+        const cls = result[positions[i]];
+        const ownRef: VertecClassRef = { name: cls.name, class_id: cls.class_id };
+
+        // Overlay members replace members with the same name, e.g. to correct a type.
+        const members = (entry.members ?? []).map(member => createMember(member));
+        const memberNames = new Set(members.map(member => member.name));
+        const associations = (entry.associations ?? []).map(assoc => createAssociation(assoc, ownRef, toRef));
+        const associationNames = new Set(associations.map(assoc => assoc.perceived_name));
+
+        result[positions[i]] = {
+            ...cls,
+            superclass: cls.is_custom && entry.superclass !== undefined ? toRef(entry.superclass) : cls.superclass,
+            members: [
+                ...(cls.members ?? []).filter(member => !memberNames.has(member.name.toLowerCase())),
+                ...members
+            ],
+            associations: [
+                ...(cls.associations ?? []).filter(assoc => !associationNames.has(assoc.perceived_name.toLowerCase())),
+                ...associations
+            ]
+        };
+    });
+
+    return result;
+}
+
+/**
+ * Creates a model member from an overlay member. Names are lowercase like in the model data.
+ */
+function createMember(member: OverlayMember): VertecMember {
+    return {
+        ...member,
+        name: member.name.toLowerCase(),
+        name_alt: (member.name_alt ?? member.name).toLowerCase(),
+        member_type: member.member_type ?? 'String',
+        is_custom: true
+    };
+}
+
+/**
+ * Creates a model association from an overlay association. The role 1 is the own class,
+ * unless defined otherwise, the role 2 is the target class.
+ */
+function createAssociation(
+    assoc: OverlayAssociation,
+    ownRef: VertecClassRef,
+    toRef: (ref: OverlayClassRef | undefined, english?: boolean) => VertecClassRef | undefined
+): VertecAssociation {
+    const perceivedName = assoc.perceived_name.toLowerCase();
+    const role1Ref = assoc.role1_class ?? ownRef;
+
+    return {
+        ...assoc,
+        name: (assoc.name ?? perceivedName).toLowerCase(),
+        name_alt: (assoc.name_alt ?? assoc.name ?? perceivedName).toLowerCase(),
+        perceived_name: perceivedName,
+        perceived_name_alt: (assoc.perceived_name_alt ?? perceivedName).toLowerCase(),
+        association_class: toRef(assoc.association_class) ?? { name: '', class_id: 0 },
+        role1_class: toRef(role1Ref),
+        role1_class_alt: toRef(role1Ref, true),
+        role2_class: toRef(assoc.role2_class),
+        role2_class_alt: toRef(assoc.role2_class, true),
+        role1_name: (assoc.role1_name ?? '').toLowerCase(),
+        role2_name: (assoc.role2_name ?? perceivedName).toLowerCase(),
+        is_role2_navigable: assoc.is_role2_navigable ?? true,
+        is_custom: true
+    };
+}
+
+/**
+ * Activates the overlay by watching the overlay files of the workspace.
+ */
+export function activateModelOverlay(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${MODEL_OVERLAY_FILE}`);
+    const reload = () => {
+        overlayClasses = null;
+        overlayVersion++;
+        onDidChangeModelOverlayEmitter.fire();
+    };
+
+    context.subscriptions.push(
+        watcher,
+        onDidChangeModelOverlayEmitter,
+        watcher.onDidCreate(reload),
+        watcher.onDidChange(reload),
+        watcher.onDidDelete(reload),
+        vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    );
+}
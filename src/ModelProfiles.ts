@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * A named model source, e.g. for a specific Vertec release.
+ * Profiles are configured in the settings and can be defined per workspace folder.
+ */
+export interface ModelProfile {
+    name: string;
+    url: string;        // URL, file:// uri or (workspace-relative) path of the model.
+    version?: string;   // Vertec version label, e.g. "6.6".
+}
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+const onDidChangeActiveModelProfileEmitter = new vscode.EventEmitter<ModelProfile>();
+
+/**
+ * Fires when the profile used for the active editor changes,
+ * either by switching the profile or by switching to another workspace folder.
+ */
+export const onDidChangeActiveModelProfile = onDidChangeActiveModelProfileEmitter.event;
+
+let statusBarItem: vscode.StatusBarItem | null = null;
+let lastActiveProfileKey: string | null = null;
+
+/**
+ * Returns the scope for the configuration lookup. Defaults to the document of the active editor.
+ */
+function getDefaultScope(): vscode.Uri | undefined {
+    return vscode.window.activeTextEditor?.document.uri;
+}
+
+/**
+ * Resolves workspace-relative model paths against the workspace folder of the given scope,
+ * so each folder can pin its own model snapshot.
+ */
+function resolveProfileUrl(url: string, scope?: vscode.Uri): string {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url) || path.isAbsolute(url)) {
+        return url;
+    }
+
+    const workspaceFolder = (scope && vscode.workspace.getWorkspaceFolder(scope))
+        ?? vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return url;
+    }
+
+    return vscode.Uri.joinPath(workspaceFolder.uri, url).toString();
+}
+
+/**
+ * Returns the model url of the workspace settings, i.e. of the default profile without folder settings.
+ */
+export function getDefaultModelUrl(): string {
+    return resolveProfileUrl(vscode.workspace.getConfiguration('vertecVscodeExtension').get('ModelUrl', ''));
+}
+
+/**
+ * Returns all model profiles for the given scope. The default profile based on the "ModelUrl"
+ * setting is always available, unless a configured profile uses the same name.
+ */
+export function getModelProfiles(scope: vscode.Uri | undefined = getDefaultScope()): ModelProfile[] {
+    const config = vscode.workspace.getConfiguration('vertecVscodeExtension', scope);
+    const configuredProfiles = config.get<ModelProfile[]>('ModelProfiles', [])
+        .filter(profile => profile && profile.name && profile.url)
+        .map(profile => ({
+            ...profile,
+            url: resolveProfileUrl(profile.url, scope)
+        }));
+
+    const profiles: ModelProfile[] = [];
+    if (!configuredProfiles.some(profile => profile.name === DEFAULT_PROFILE_NAME)) {
+        profiles.push({
+            name: DEFAULT_PROFILE_NAME,
+            url: resolveProfileUrl(config.get('ModelUrl', ''), scope)
+        });
+    }
+    profiles.push(...configuredProfiles);
+
+    return profiles;
+}
+
+/**
+ * Returns the active model profile for the given scope. Falls back to the default profile
+ * if the configured profile does not exist.
+ */
+export function getActiveModelProfile(scope: vscode.Uri | undefined = getDefaultScope()): ModelProfile {
+    const activeName = vscode.workspace.getConfiguration('vertecVscodeExtension', scope)
+        .get('ActiveModelProfile', DEFAULT_PROFILE_NAME);
+    const profiles = getModelProfiles(scope);
+
+    return profiles.find(profile => profile.name === activeName)
+        ?? profiles.find(profile => profile.name === DEFAULT_PROFILE_NAME)
+        ?? profiles[0];
+}
+
+/**
+ * Returns the label of a profile including its version.
+ */
+export function getModelProfileLabel(profile: ModelProfile): string {
+    return profile.version ? `${profile.name} (${profile.version})` : profile.name;
+}
+
+/**
+ * Shows a quick pick to switch the active model profile.
+ * The selection is stored for the workspace folder of the active editor, if there is one.
+ */
+export async function selectModelProfile() {
+    try {
+        const scope = getDefaultScope();
+        const activeProfile = getActiveModelProfile(scope);
+
+        const items = getModelProfiles(scope).map(profile => ({
+            label: profile.name,
+            description: [
+                profile.version,
+                profile.name === activeProfile.name ? '(active)' : undefined
+            ].filter(Boolean).join(' '),
+            detail: profile.url,
+            profile: profile
+        }));
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the model profile ...',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selection) {
+            return;
+        }
+
+        const workspaceFolder = scope && vscode.workspace.getWorkspaceFolder(scope);
+        await vscode.workspace.getConfiguration('vertecVscodeExtension', scope).update(
+            'ActiveModelProfile',
+            selection.profile.name,
+            workspaceFolder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Global
+        );
+
+        vscode.window.showInformationMessage(
+            `Switched to model profile "${getModelProfileLabel(selection.profile)}".`
+        );
+
+    } catch (error) {
+        console.error('Error switching the model profile:', error);
+        vscode.window.showErrorMessage('An error occured while switching the model profile.');
+    }
+}
+
+/**
+ * Updates the status bar item and notifies listeners if the active profile changed.
+ */
+function refreshActiveModelProfile(): void {
+    const profile = getActiveModelProfile();
+
+    if (statusBarItem) {
+        statusBarItem.text = `$(symbol-class) ${getModelProfileLabel(profile)}`;
+        statusBarItem.tooltip = `Vertec model profile: ${profile.url}\nClick to switch the profile.`;
+    }
+
+    const profileKey = `${profile.name}|${profile.url}`;
+    if (lastActiveProfileKey !== null && lastActiveProfileKey !== profileKey) {
+        onDidChangeActiveModelProfileEmitter.fire(profile);
+    }
+    lastActiveProfileKey = profileKey;
+}
+
+/**
+ * Activates the model profiles by registering the status bar item and the change listeners.
+ */
+export function activateModelProfiles(context: vscode.ExtensionContext): void {
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    statusBarItem.command = 'vertec.modelprofile.select';
+    statusBarItem.show();
+
+    context.subscriptions.push(
+        statusBarItem,
+        onDidChangeActiveModelProfileEmitter,
+        vscode.window.onDidChangeActiveTextEditor(() => refreshActiveModelProfile()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (
+                event.affectsConfiguration('vertecVscodeExtension.ModelProfiles') ||
+                event.affectsConfiguration('vertecVscodeExtension.ActiveModelProfile') ||
+                event.affectsConfiguration('vertecVscodeExtension.ModelUrl')
+            ) {
+                refreshActiveModelProfile();
+            }
+        })
+    );
+
+    refreshActiveModelProfile();
+}
@@ -0,0 +1,1055 @@
+import * as vscode from 'vscode';
+
+export type TokenType = 'name' | 'number' | 'string' | 'op' | 'comment' | 'newline';
+
+/**
+ * Token of a Python script. Newline tokens end a logical line, line breaks inside brackets
+ * and after a backslash are skipped.
+ */
+export interface Token {
+    type: TokenType;
+    value: string;
+    start: number;      // Offset in the document.
+    end: number;
+    line: number;
+    column: number;
+}
+
+export type ScopeKind = 'module' | 'function' | 'class' | 'comprehension';
+
+/**
+ * Function, class or comprehension scope. Ranges are offsets in the document.
+ */
+export interface Scope {
+    kind: ScopeKind;
+    parent: Scope | null;
+    start: number;
+    end: number;
+    bindings: Binding[];
+}
+
+export type BindingKind = 'assignment' | 'for' | 'with' | 'parameter' | 'comprehension' | 'import' | 'function' | 'class' | 'except';
+
+/**
+ * Assignment of a name. The type is the value (an element of it for loops), possibly unpacked by the path,
+ * e.g. [1] for "a, b = x, y". Type hints of annotations or type comments take precedence.
+ */
+export interface Binding {
+    name: string;
+    kind: BindingKind;
+    offset: number;                     // Where the value is evaluated.
+    visibleFrom: number;
+    hidden?: [number, number];          // Range where the binding is not visible, e.g. the iterable of a comprehension.
+    block: Block | null;                // null for parameters, visible in the whole function.
+    value?: Token[];
+    path: number[];
+    iterate: boolean;
+    typeHint?: string;
+    returnType?: string;                // Return annotation of functions.
+}
+
+/**
+ * Type of an annotation: the class, or the element class of a list.
+ */
+export interface AnnotatedType {
+    className: string;
+    isList: boolean;
+}
+
+/**
+ * Indented block of statements. Blocks of the same compound statement (if / elif / else, try / except)
+ * share the branch id, they exclude each other.
+ */
+export interface Block {
+    parent: Block | null;
+    scope: Scope;
+    branch: number;
+    start: number;
+    end: number;
+    children: Block[];
+}
+
+const COMPOUND_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'with', 'def', 'class']);
+const BRANCH_KEYWORDS = new Set(['elif', 'else', 'except', 'finally']);
+const OPEN_BRACKETS = new Set(['(', '[', '{']);
+const CLOSE_BRACKETS = new Set([')', ']', '}']);
+
+const OPERATORS = [
+    '**=', '//=', '>>=', '<<=', '...',
+    '->', ':=', '**', '//', '==', '!=', '<>', '<=', '>=', '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@='
+];
+
+const NAME_REGEX = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const NUMBER_REGEX = /0[xXoObB][\da-fA-F_]+[lL]?|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJlL]?/y;
+const STRING_PREFIX_REGEX = /[rRbBuUfF]{1,2}(?=["'])/y;
+const TYPE_COMMENT_REGEX = /^#\s*type:\s*(.*?)\s*$/;
+
+// Generic types with the element type as argument.
+const LIST_TYPES = new Set(['List', 'list', 'Sequence', 'Iterable', 'Iterator', 'Collection', 'Set', 'set']);
+
+/**
+ * Splits a Python script into tokens. Unterminated strings and brackets are tolerated,
+ * a "def" or "class" at the start of a line closes open brackets.
+ */
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    let line = 0;
+    let lineStart = 0;
+    let depth = 0;
+    let hasLogicalLine = false;     // Tokens since the last newline token.
+    let isLineStart = true;         // No token on the physical line yet.
+
+    const push = (type: TokenType, start: number, end: number) => {
+        tokens.push({ type, value: text.substring(start, end), start, end, line, column: start - lineStart });
+    };
+    const pushNewline = (offset: number) => {
+        if (hasLogicalLine) {
+            tokens.push({ type: 'newline', value: '', start: offset, end: offset, line, column: offset - lineStart });
+            hasLogicalLine = false;
+        }
+    };
+    const matchAt = (regex: RegExp): string | null => {
+        regex.lastIndex = position;
+        const match = regex.exec(text);
+        return match ? match[0] : null;
+    };
+
+    while (position < text.length) {
+        const char = text[position];
+
+        if (char === '\n' || char === '\r') {
+            if (depth === 0) {
+                pushNewline(position);
+            }
+            position += char === '\r' && text[position + 1] === '\n' ? 2 : 1;
+            line++;
+            lineStart = position;
+            isLineStart = true;
+            continue;
+        }
+
+        if (char === ' ' || char === '\t' || char === '\f') {
+            position++;
+            continue;
+        }
+
+        // Line continuation.
+        if (char === '\\' && (text[position + 1] === '\n' || text[position + 1] === '\r')) {
+            position += text.startsWith('\r\n', position + 1) ? 3 : 2;
+            line++;
+            lineStart = position;
+            continue;
+        }
+
+        if (char === '#') {
+            let end = position;
+            while (end < text.length && text[end] !== '\n' && text[end] !== '\r') {
+                end++;
+            }
+            push('comment', position, end);
+            position = end;
+            continue;
+        }
+
+        const start = position;
+        const startLine = line;
+        const startColumn = position - lineStart;
+
+        const prefix = matchAt(STRING_PREFIX_REGEX);
+        if (prefix !== null || char === '"' || char === '\'') {
+            position += prefix?.length ?? 0;
+            const quote = text.startsWith(text[position].repeat(3), position) ? text[position].repeat(3) : text[position];
+            position += quote.length;
+            while (position < text.length && !text.startsWith(quote, position)) {
+                if (text[position] === '\\') {
+                    position++;
+                } else if (text[position] === '\n' || text[position] === '\r') {
+                    // Single quoted strings end at the line end, even if unterminated.
+                    if (quote.length === 1) {
+                        break;
+                    }
+                    if (text[position] === '\r' && text[position + 1] === '\n') {
+                        position++;
+                    }
+                    line++;
+                    lineStart = position + 1;
+                }
+                position++;
+            }
+            if (text.startsWith(quote, position)) {
+                position += quote.length;
+            }
+            tokens.push({ type: 'string', value: text.substring(start, position), start, end: position, line: startLine, column: startColumn });
+            hasLogicalLine = true;
+            isLineStart = false;
+            continue;
+        }
+
+        const number = /[\d.]/.test(char) ? matchAt(NUMBER_REGEX) : null;
+        if (number) {
+            position += number.length;
+            push('number', start, position);
+            hasLogicalLine = true;
+            isLineStart = false;
+            continue;
+        }
+
+        const name = matchAt(NAME_REGEX);
+        if (name) {
+            // Brackets left open by incomplete code must not swallow the following definitions.
+            if (isLineStart && depth > 0 && (name === 'def' || name === 'class')) {
+                depth = 0;
+                pushNewline(start);
+            }
+            position += name.length;
+            push('name', start, position);
+            hasLogicalLine = true;
+            isLineStart = false;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => text.startsWith(op, position)) ?? char;
+        position += operator.length;
+        push('op', start, position);
+        if (OPEN_BRACKETS.has(operator)) {
+            depth++;
+        } else if (CLOSE_BRACKETS.has(operator)) {
+            depth = Math.max(0, depth - 1);
+        }
+        hasLogicalLine = true;
+        isLineStart = false;
+    }
+
+    pushNewline(text.length);
+    return tokens;
+}
+
+/**
+ * Returns the index of the matching closing bracket, or the length if unterminated.
+ */
+export function findClosingBracket(tokens: Token[], openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < tokens.length; i++) {
+        if (tokens[i].type !== 'op') {
+            continue;
+        }
+        if (OPEN_BRACKETS.has(tokens[i].value)) {
+            depth++;
+        } else if (CLOSE_BRACKETS.has(tokens[i].value) && --depth === 0) {
+            return i;
+        }
+    }
+
+    return tokens.length;
+}
+
+/**
+ * Returns the indexes of the tokens outside of brackets which match the predicate.
+ */
+function findTopLevel(tokens: Token[], predicate: (token: Token) => boolean): number[] {
+    const indexes: number[] = [];
+    let depth = 0;
+    tokens.forEach((token, i) => {
+        if (token.type === 'op' && OPEN_BRACKETS.has(token.value)) {
+            depth++;
+        } else if (token.type === 'op' && CLOSE_BRACKETS.has(token.value)) {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0 && predicate(token)) {
+            indexes.push(i);
+        }
+    });
+
+    return indexes;
+}
+
+/**
+ * Splits tokens at the separators outside of brackets, e.g. the items of a tuple. A trailing separator
+ * doesn't create an empty item.
+ */
+export function splitTopLevel(tokens: Token[], separator: string): Token[][] {
+    const parts: Token[][] = [];
+    let start = 0;
+    findTopLevel(tokens, token => token.type === 'op' && token.value === separator).forEach(i => {
+        parts.push(tokens.slice(start, i));
+        start = i + 1;
+    });
+    if (start < tokens.length || parts.length === 0) {
+        parts.push(tokens.slice(start));
+    }
+
+    return parts;
+}
+
+/**
+ * Returns true if the tokens are a tuple, i.e. contain a separating comma outside of brackets.
+ */
+export function isTuple(tokens: Token[]): boolean {
+    return findTopLevel(tokens, token => token.type === 'op' && token.value === ',').length > 0;
+}
+
+/**
+ * Removes the parentheses around an expression, e.g. "(projekt.phasen)".
+ */
+export function stripParens(tokens: Token[]): Token[] {
+    while (tokens.length >= 2 && tokens[0].value === '(' && findClosingBracket(tokens, 0) === tokens.length - 1) {
+        tokens = tokens.slice(1, -1);
+    }
+
+    return tokens;
+}
+
+/**
+ * Returns the text of tokens, normalized to single spaces between tokens on different offsets.
+ */
+export function getTokensText(tokens: Token[]): string {
+    return tokens.map((token, i) => (i > 0 && token.start > tokens[i - 1].end ? ' ' : '') + token.value).join('');
+}
+
+/**
+ * Returns a chain expression like "projekt.phasen[0].code" of the tokens, or null if the tokens are
+ * something else. Subscripts with names or numbers are normalized to "[0]".
+ */
+export function getChainText(tokens: Token[]): string | null {
+    tokens = stripParens(tokens);
+    if (tokens.length === 0 || tokens[0].type !== 'name') {
+        return null;
+    }
+
+    const accessors = getAccessorsText(tokens.slice(1));
+    return accessors === null ? null : tokens[0].value + accessors;
+}
+
+/**
+ * Returns the accessors of a chain like ".phasen[0].code" of the tokens, see getChainText.
+ */
+export function getAccessorsText(tokens: Token[]): string | null {
+    let chain = '';
+    let i = 0;
+    while (i < tokens.length) {
+        if (tokens[i].value === '.' && tokens[i + 1]?.type === 'name') {
+            chain += `.${tokens[i + 1].value}`;
+            i += 2;
+            continue;
+        }
+
+        const close = tokens[i].value === '[' ? findClosingBracket(tokens, i) : -1;
+        const subscript = tokens.slice(i + 1, close).filter(token => token.value !== '-');
+        if (close > i + 1 && subscript.length === 1 && (subscript[0].type === 'number' || subscript[0].type === 'name')) {
+            chain += '[0]';
+            i = close + 1;
+            continue;
+        }
+
+        return null;
+    }
+
+    return chain;
+}
+
+/**
+ * Returns the primary expression at the end of the tokens: names with calls, subscripts and attributes,
+ * e.g. "vtcapp.currentlogin().stufe" of "if vtcapp.currentlogin().stufe". Empty if there is none.
+ */
+export function getTrailingExpression(tokens: Token[]): Token[] {
+    let start = tokens.length;
+    let i = tokens.length - 1;
+    while (i >= 0) {
+        // Arguments of calls and subscripts.
+        while (i >= 0 && tokens[i].type === 'op' && (tokens[i].value === ')' || tokens[i].value === ']')) {
+            let depth = 0;
+            for (; i >= 0; i--) {
+                if (tokens[i].type !== 'op') {
+                    continue;
+                }
+                if (CLOSE_BRACKETS.has(tokens[i].value)) {
+                    depth++;
+                } else if (OPEN_BRACKETS.has(tokens[i].value) && --depth === 0) {
+                    break;
+                }
+            }
+            i--;
+        }
+
+        if (i < 0 || tokens[i].type !== 'name') {
+            break;
+        }
+        start = i;
+        if (tokens[i - 1]?.value !== '.') {
+            break;
+        }
+        i -= 2;
+    }
+
+    // Attributes of other expressions, e.g. "(a or b).c", are not supported.
+    return start < tokens.length && tokens[start].type === 'name' && tokens[start - 1]?.value !== '.' ? tokens.slice(start) : [];
+}
+
+/**
+ * Returns the value of a string literal without prefix and quotes, or null for other tokens and f-strings.
+ * Escape sequences are kept.
+ */
+export function getStringValue(token: Token): string | null {
+    const match = token.type === 'string' ? token.value.match(/^[rRuUbB]{0,2}('''|"""|'|")([\s\S]*?)\1$/) : null;
+    return match ? match[2] : null;
+}
+
+/**
+ * Parses a call like "enumerate(projekt.phasen)" or "vtcapp.getwithsql(...)".
+ * @returns the dotted name of the called function and the arguments, or null if the tokens are no call.
+ */
+export function parseCall(tokens: Token[]): { name: string; args: Token[][] } | null {
+    tokens = stripParens(tokens);
+    let i = 0;
+    let name = '';
+    while (tokens[i]?.type === 'name') {
+        name += tokens[i].value;
+        if (tokens[i + 1]?.value !== '.') {
+            break;
+        }
+        name += '.';
+        i += 2;
+    }
+
+    const open = i + 1;
+    if (!name || name.endsWith('.') || tokens[open]?.value !== '(' || findClosingBracket(tokens, open) !== tokens.length - 1) {
+        return null;
+    }
+
+    const argTokens = tokens.slice(open + 1, -1);
+    return { name, args: argTokens.length > 0 ? splitTopLevel(argTokens, ',').filter(arg => arg.length > 0) : [] };
+}
+
+/**
+ * Parses the tokens of an annotation, see parseAnnotation.
+ */
+function parseAnnotationTokens(tokens: Token[]): AnnotatedType | null {
+    tokens = stripParens(tokens);
+
+    // Forward reference, e.g. "List['Projekt']".
+    if (tokens.length === 1 && tokens[0].type === 'string') {
+        const reference = getStringValue(tokens[0]);
+        return reference !== null ? parseAnnotation(reference) : null;
+    }
+
+    // Optional values, e.g. "Projekt | None".
+    const alternatives = splitTopLevel(tokens, '|').filter(alternative => !(alternative.length === 1 && alternative[0].value === 'None'));
+    if (alternatives.length !== 1) {
+        return null;
+    }
+    tokens = alternatives[0];
+
+    // Dotted name, the last part is the class, e.g. "typing.List" or "Projekt".
+    let i = 0;
+    while (tokens[i]?.type === 'name' && tokens[i + 1]?.value === '.') {
+        i += 2;
+    }
+    if (tokens[i]?.type !== 'name') {
+        return null;
+    }
+    const name = tokens[i].value;
+    if (i === tokens.length - 1) {
+        return { className: name, isList: false };
+    }
+    if (tokens[i + 1].value !== '[' || findClosingBracket(tokens, i + 1) !== tokens.length - 1) {
+        return null;
+    }
+
+    const args = splitTopLevel(tokens.slice(i + 2, -1), ',');
+    if (name === 'Optional' && args.length === 1) {
+        return parseAnnotationTokens(args[0]);
+    }
+    if (name === 'Union') {
+        const types = args.filter(arg => !(arg.length === 1 && arg[0].value === 'None'));
+        return types.length === 1 ? parseAnnotationTokens(types[0]) : null;
+    }
+    if (LIST_TYPES.has(name) && args.length === 1) {
+        const element = parseAnnotationTokens(args[0]);
+        return element && !element.isList ? { className: element.className, isList: true } : null;
+    }
+
+    return null;
+}
+
+/**
+ * Parses a type annotation or the type of a type comment: a class like "Projekt", a list like "List[Projekt]"
+ * or "list[Projekt]", and optional values like "Optional[Projekt]". Module prefixes are ignored.
+ * @returns null for other types, e.g. dictionaries or unions of several classes.
+ */
+export function parseAnnotation(annotation: string): AnnotatedType | null {
+    return parseAnnotationTokens(tokenize(annotation).filter(token => token.type !== 'newline' && token.type !== 'comment'));
+}
+
+/**
+ * Returns the type of a type comment ("# type: Projekt"), or undefined for other comments.
+ */
+function getTypeComment(comment: Token | undefined): string | undefined {
+    const match = comment ? TYPE_COMMENT_REGEX.exec(comment.value) : null;
+    return match && match[1] && !match[1].startsWith('ignore') ? match[1] : undefined;
+}
+
+/**
+ * A logical line: the code tokens and the comments on its lines.
+ */
+interface LogicalLine {
+    tokens: Token[];
+    comments: Token[];
+}
+
+/**
+ * Scopes, blocks and bindings of a Python script.
+ */
+export class ScopeAnalysis {
+    readonly module: Scope;
+    private readonly rootBlock: Block;
+    private readonly scopes: Scope[] = [];
+    private readonly commentsByLine = new Map<number, Token>();
+    private readonly annotationsByLine = new Map<number, Token[]>();
+    private nextBranch = 1;
+
+    constructor(readonly text: string) {
+        this.module = { kind: 'module', parent: null, start: 0, end: text.length, bindings: [] };
+        this.rootBlock = { parent: null, scope: this.module, branch: 0, start: 0, end: text.length, children: [] };
+        this.scopes.push(this.module);
+        this.analyze(tokenize(text));
+    }
+
+    /**
+     * Returns the bindings of a name which are visible at an offset, the most recent first.
+     * Bindings of the own scope must precede the offset and must not be in an excluding branch,
+     * enclosing scopes are searched completely (functions run later). Class scopes are only
+     * searched from the class body itself.
+     */
+    findBindings(name: string, offset: number): Binding[] {
+        const block = this.findBlock(offset);
+        const result: Binding[] = [];
+
+        let isOwnScope = true;
+        for (let scope: Scope | null = this.findScope(offset); scope; scope = scope.parent) {
+            if (scope.kind === 'class' && !isOwnScope) {
+                continue;
+            }
+
+            const bindings = scope.bindings.filter(binding => binding.name === name
+                && !(binding.hidden && offset >= binding.hidden[0] && offset <= binding.hidden[1]));
+            const before = bindings.filter(binding => binding.visibleFrom <= offset).reverse();
+            if (isOwnScope) {
+                result.push(...before.filter(binding => this.isReachable(binding, block)));
+            } else {
+                result.push(...before, ...bindings.filter(binding => binding.visibleFrom > offset));
+            }
+
+            // Comprehensions see the scope around them like their own.
+            isOwnScope = scope.kind === 'comprehension';
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks if a binding always runs before the code at an offset: it is a parameter or its block contains the offset.
+     * Bindings in other blocks, e.g. a branch or a loop body before the offset, may be skipped.
+     */
+    isUnconditional(binding: Binding, offset: number): boolean {
+        for (let block: Block | null = this.findBlock(offset); block; block = block.parent) {
+            if (block === binding.block) {
+                return true;
+            }
+        }
+        return !binding.block;
+    }
+
+    /**
+     * Returns the tokens of the type annotations on a line, e.g. "List[Projekt]" of "def f() -> List[Projekt]:".
+     */
+    getAnnotationTokens(line: number): Token[] {
+        return this.annotationsByLine.get(line) ?? [];
+    }
+
+    /**
+     * Returns the innermost scope at an offset.
+     */
+    findScope(offset: number): Scope {
+        return this.scopes
+            .filter(scope => scope.start <= offset && offset <= scope.end)
+            .reduce((inner, scope) => scope.end - scope.start < inner.end - inner.start ? scope : inner, this.module);
+    }
+
+    /**
+     * Returns the innermost block at an offset.
+     */
+    private findBlock(offset: number): Block {
+        let block = this.rootBlock;
+        for (;;) {
+            const child = block.children.find(c => c.start <= offset && offset <= c.end);
+            if (!child) {
+                return block;
+            }
+            block = child;
+        }
+    }
+
+    /**
+     * Checks that a binding isn't in a branch which excludes the block, e.g. in the if-block for the else-block.
+     */
+    private isReachable(binding: Binding, block: Block): boolean {
+        if (!binding.block) {
+            return true;
+        }
+
+        const path: Block[] = [];
+        for (let current: Block | null = block; current; current = current.parent) {
+            path.unshift(current);
+        }
+
+        let child: Block | null = null;
+        let current: Block | null = binding.block;
+        while (current && !path.includes(current)) {
+            child = current;
+            current = current.parent;
+        }
+        if (!child || !current) {
+            return true;
+        }
+
+        const blockChild = path[path.indexOf(current) + 1];
+        return !(blockChild && child.branch !== 0 && child.branch === blockChild.branch && child !== blockChild);
+    }
+
+    /**
+     * Builds the logical lines, the blocks by indentation and the bindings of the statements.
+     */
+    private analyze(tokens: Token[]) {
+        const lines = this.getLogicalLines(tokens);
+        const stack: { indent: number; block: Block }[] = [{ indent: 0, block: this.rootBlock }];
+        let pending: { scope: Scope | null; branch: number; bindings: Binding[] } | null = null;
+
+        // Closes the innermost block, it ends before the line which follows it.
+        const close = (end: number) => {
+            const { block } = stack.pop()!;
+            block.end = Math.max(block.start, end);
+            if (block.scope !== block.parent?.scope) {
+                block.scope.end = block.end;
+            }
+        };
+
+        lines.forEach(({ tokens: lineTokens, comments }) => {
+            const first = lineTokens[0];
+            const indent = first.column;
+            const lineStart = first.start - first.column;
+
+            if (pending && indent > stack[stack.length - 1].indent) {
+                const parent = stack[stack.length - 1].block;
+                const block = this.createBlock(parent, pending.scope ?? parent.scope, pending.branch, lineStart);
+                pending.bindings.forEach(binding => binding.block = block);
+                stack.push({ indent, block });
+            } else {
+                // A header without body (incomplete code) doesn't open its scope.
+                if (pending?.scope) {
+                    pending.scope.end = pending.scope.start;
+                }
+                while (stack.length > 1 && stack[stack.length - 1].indent > indent) {
+                    close(lineStart - 1);
+                }
+            }
+
+            pending = this.processLine(lineTokens, comments, stack[stack.length - 1].block);
+        });
+
+        while (stack.length > 1) {
+            close(this.text.length);
+        }
+    }
+
+    /**
+     * Groups the tokens to logical lines. Comment lines without code are remembered by line for type comments.
+     */
+    private getLogicalLines(tokens: Token[]): LogicalLine[] {
+        const lines: LogicalLine[] = [];
+        let current: LogicalLine = { tokens: [], comments: [] };
+
+        tokens.forEach(token => {
+            if (token.type === 'newline') {
+                if (current.tokens.length > 0) {
+                    lines.push(current);
+                }
+                current = { tokens: [], comments: [] };
+            } else if (token.type === 'comment') {
+                if (current.tokens.length > 0) {
+                    current.comments.push(token);
+                } else {
+                    this.commentsByLine.set(token.line, token);
+                }
+            } else {
+                current.tokens.push(token);
+            }
+        });
+        if (current.tokens.length > 0) {
+            lines.push(current);
+        }
+
+        return lines;
+    }
+
+    private addAnnotation(tokens: Token[]) {
+        tokens.forEach(token => {
+            const annotations = this.annotationsByLine.get(token.line) ?? [];
+            annotations.push(token);
+            this.annotationsByLine.set(token.line, annotations);
+        });
+    }
+
+    private createBlock(parent: Block, scope: Scope, branch: number, start: number): Block {
+        const block: Block = { parent, scope, branch, start, end: this.text.length, children: [] };
+        parent.children.push(block);
+        return block;
+    }
+
+    private createScope(kind: ScopeKind, parent: Scope, start: number): Scope {
+        const scope: Scope = { kind, parent, start, end: this.text.length, bindings: [] };
+        this.scopes.push(scope);
+        return scope;
+    }
+
+    /**
+     * Returns the type comment of a statement: on its last line or on the line before it.
+     */
+    private getStatementTypeComment(tokens: Token[], comments: Token[]): string | undefined {
+        const last = tokens[tokens.length - 1];
+        return getTypeComment(comments.find(comment => comment.line === last.line && comment.start > last.start))
+            ?? getTypeComment(this.commentsByLine.get(tokens[0].line - 1));
+    }
+
+    /**
+     * Processes a logical line: a compound statement header (with an inline body) or simple statements.
+     * @returns the pending block of a header without inline body.
+     */
+    private processLine(tokens: Token[], comments: Token[], block: Block): { scope: Scope | null; branch: number; bindings: Binding[] } | null {
+        const keywordIndex = tokens[0].value === 'async' ? 1 : 0;
+        const keyword = tokens[keywordIndex]?.value;
+        const colon = COMPOUND_KEYWORDS.has(keyword)
+            ? findTopLevel(tokens, token => token.type === 'op' && token.value === ':')[0]
+            : undefined;
+
+        if (colon === undefined) {
+            splitTopLevel(tokens, ';').filter(statement => statement.length > 0).forEach(statement => {
+                this.processSimpleStatement(statement, comments, block);
+            });
+            return null;
+        }
+
+        const header = tokens.slice(keywordIndex, colon);
+        const body = tokens.slice(colon + 1);
+        const bodyStart = tokens[colon].end;
+        const typeHint = this.getStatementTypeComment(tokens.slice(0, colon + 1), comments);
+
+        // Branches of the same if or try statement exclude each other.
+        let branch = 0;
+        if (keyword !== 'def' && keyword !== 'class') {
+            const previous = block.children[block.children.length - 1];
+            branch = BRANCH_KEYWORDS.has(keyword) && previous?.branch ? previous.branch : this.nextBranch++;
+        }
+
+        let scope: Scope | null = null;
+        let bindings: Binding[] = [];
+        this.findComprehensions(header, block.scope, block);
+        switch (keyword) {
+            case 'def':
+                scope = this.createScope('function', block.scope, bodyStart);
+                this.addBinding(block.scope, {
+                    name: header[1]?.value, kind: 'function', offset: header[0].start, visibleFrom: bodyStart, block,
+                    returnType: this.getReturnType(header, typeHint)
+                });
+                bindings = this.addParameters(header, comments, scope, typeHint);
+                break;
+            case 'class':
+                scope = this.createScope('class', block.scope, bodyStart);
+                this.addBinding(block.scope, { name: header[1]?.value, kind: 'class', offset: header[0].start, visibleFrom: bodyStart, block });
+                break;
+            case 'for':
+                this.addForBindings(header, block, bodyStart, typeHint);
+                break;
+            case 'with':
+                this.addWithBindings(header, block, bodyStart, typeHint);
+                break;
+            case 'except': {
+                const as = findTopLevel(header, token => token.value === 'as')[0];
+                if (as !== undefined && header[as + 1]?.type === 'name') {
+                    this.addBinding(block.scope, { name: header[as + 1].value, kind: 'except', offset: header[0].start, visibleFrom: bodyStart, block });
+                }
+                break;
+            }
+        }
+
+        if (body.length === 0) {
+            return { scope, branch, bindings };
+        }
+
+        // Inline body, e.g. "if x: y = 1".
+        const bodyBlock = this.createBlock(block, scope ?? block.scope, branch, bodyStart);
+        bodyBlock.end = body[body.length - 1].end;
+        if (scope) {
+            scope.end = bodyBlock.end;
+        }
+        bindings.forEach(binding => binding.block = bodyBlock);
+        this.processLine(body, comments, bodyBlock);
+        return null;
+    }
+
+    /**
+     * Adds the bindings of a simple statement: assignments and imports.
+     */
+    private processSimpleStatement(tokens: Token[], comments: Token[], block: Block) {
+        this.findComprehensions(tokens, block.scope, block);
+
+        const first = tokens[0].value;
+        const start = tokens[0].start;
+        const end = tokens[tokens.length - 1].end;
+
+        if (first === 'import' || (first === 'from' && tokens.some(token => token.value === 'import'))) {
+            const names = first === 'import' ? tokens.slice(1) : tokens.slice(tokens.findIndex(token => token.value === 'import') + 1);
+            splitTopLevel(stripParens(names), ',').forEach(item => {
+                const as = item.findIndex(token => token.value === 'as');
+                const name = as >= 0 ? item[as + 1]?.value : item[0]?.value;
+                if (name && name !== '*') {
+                    this.addBinding(block.scope, { name, kind: 'import', offset: start, visibleFrom: end, block });
+                }
+            });
+            return;
+        }
+
+        const parts = splitTopLevel(tokens, '=');
+
+        // Annotated assignment or declaration, e.g. "projekt: Projekt = argobject".
+        const annotation = findTopLevel(parts[0], token => token.type === 'op' && token.value === ':')[0];
+        if (annotation !== undefined) {
+            const target = parts[0].slice(0, annotation);
+            if (target.length === 1 && target[0].type === 'name' && target[0].value !== 'lambda') {
+                this.addAnnotation(parts[0].slice(annotation + 1));
+                this.addBinding(block.scope, {
+                    name: target[0].value, kind: 'assignment', offset: start, visibleFrom: end, block,
+                    value: parts.length > 1 ? parts[parts.length - 1] : undefined,
+                    typeHint: getTokensText(parts[0].slice(annotation + 1))
+                });
+            }
+            return;
+        }
+
+        if (parts.length < 2) {
+            return;
+        }
+
+        const value = parts[parts.length - 1];
+        const typeHint = this.getStatementTypeComment(tokens, comments);
+        parts.slice(0, -1).forEach(target => {
+            this.collectTargets(target, []).forEach(({ name, path }) => {
+                this.addBinding(block.scope, {
+                    name, kind: 'assignment', offset: start, visibleFrom: end, block,
+                    value, path, typeHint: path.length === 0 ? typeHint : undefined
+                });
+            });
+        });
+    }
+
+    /**
+     * Adds the bindings of a for loop header, the targets are elements of the iterable.
+     */
+    private addForBindings(header: Token[], block: Block, bodyStart: number, typeHint?: string) {
+        const inIndex = findTopLevel(header, token => token.value === 'in')[0];
+        if (inIndex === undefined) {
+            return;
+        }
+
+        const value = header.slice(inIndex + 1);
+        this.collectTargets(header.slice(1, inIndex), []).forEach(({ name, path }) => {
+            this.addBinding(block.scope, {
+                name, kind: 'for', offset: header[0].start, visibleFrom: bodyStart, block,
+                value, path, iterate: true, typeHint: path.length === 0 ? typeHint : undefined
+            });
+        });
+    }
+
+    /**
+     * Adds the bindings of a with statement: "with expression as target, ...".
+     */
+    private addWithBindings(header: Token[], block: Block, bodyStart: number, typeHint?: string) {
+        splitTopLevel(stripParens(header.slice(1)), ',').forEach(item => {
+            const as = findTopLevel(item, token => token.value === 'as')[0];
+            if (as === undefined) {
+                return;
+            }
+            const value = item.slice(0, as);
+            this.collectTargets(item.slice(as + 1), []).forEach(({ name, path }) => {
+                this.addBinding(block.scope, {
+                    name, kind: 'with', offset: header[0].start, visibleFrom: bodyStart, block,
+                    value, path, typeHint: path.length === 0 ? typeHint : undefined
+                });
+            });
+        });
+    }
+
+    /**
+     * Returns the return annotation of a function definition ("-> Projekt"), or the return type of its type comment.
+     * The annotation is remembered for getAnnotationTokens.
+     */
+    private getReturnType(header: Token[], typeHint?: string): string | undefined {
+        const open = header.findIndex(token => token.value === '(');
+        const close = open >= 0 ? findClosingBracket(header, open) : header.length;
+        const arrow = header.findIndex((token, i) => i > close && token.value === '->');
+        if (arrow >= 0) {
+            this.addAnnotation(header.slice(arrow + 1));
+            return getTokensText(header.slice(arrow + 1));
+        }
+
+        return typeHint?.match(/^\(.*\)\s*->\s*(.+)$/)?.[1];
+    }
+
+    /**
+     * Adds the parameters of a function definition to its scope. The types are taken from the annotations
+     * ("p: Projekt"), the function type comment ("# type: (Projekt, int) -> None") or from comments per parameter.
+     */
+    private addParameters(header: Token[], comments: Token[], scope: Scope, typeHint?: string): Binding[] {
+        const open = header.findIndex(token => token.value === '(');
+        if (open < 0) {
+            return [];
+        }
+
+        const close = findClosingBracket(header, open);
+        const params = splitTopLevel(header.slice(open + 1, close), ',')
+            .map(param => splitTopLevel(param, '=')[0].filter(token => token.value !== '*' && token.value !== '**'))
+            .filter(param => param[0]?.type === 'name');
+
+        // Types of the function type comment, without self or cls of methods.
+        let types: string[] = [];
+        const signature = typeHint?.match(/^\((.*)\)\s*->/);
+        if (signature) {
+            const typeTokens = tokenize(signature[1]).filter(token => token.type !== 'newline');
+            types = typeTokens.length > 0
+                ? splitTopLevel(typeTokens, ',').map(type => getTokensText(type.filter(token => token.value !== '*' && token.value !== '**')))
+                : [];
+        }
+        const typeOffset = types.length === params.length - 1 && ['self', 'cls'].includes(params[0]?.[0].value) ? 1 : 0;
+
+        return params.map((param, i) => {
+            const last = param[param.length - 1];
+            const comment = comments.find(c => c.line === last.line && c.start > last.end && c.start < header[close]?.start);
+            const paramComment = getTypeComment(comment);
+            const annotation = param[1]?.value === ':' ? getTokensText(param.slice(2)) : undefined;
+            if (annotation) {
+                this.addAnnotation(param.slice(2));
+            }
+            return this.addBinding(scope, {
+                name: param[0].value,
+                kind: 'parameter',
+                offset: scope.start,
+                visibleFrom: scope.start,
+                block: null,
+                typeHint: annotation || (types[i - typeOffset] ?? (paramComment && !paramComment.startsWith('(') ? paramComment : undefined))
+            })!;
+        });
+    }
+
+    /**
+     * Finds the comprehensions in an expression, each with its own scope for the loop variables.
+     */
+    private findComprehensions(tokens: Token[], scope: Scope, block: Block) {
+        for (let i = 0; i < tokens.length; i++) {
+            if (tokens[i].type !== 'op' || !OPEN_BRACKETS.has(tokens[i].value)) {
+                continue;
+            }
+
+            const close = findClosingBracket(tokens, i);
+            const content = tokens.slice(i + 1, close);
+            const fors = findTopLevel(content, token => token.value === 'for');
+            let innerScope = scope;
+            if (fors.length > 0) {
+                innerScope = this.createScope('comprehension', scope, tokens[i].start);
+                innerScope.end = tokens[close]?.end ?? tokens[tokens.length - 1].end;
+                this.addComprehensionBindings(content, fors, innerScope, block);
+            }
+
+            this.findComprehensions(content, innerScope, block);
+            i = close;
+        }
+    }
+
+    /**
+     * Adds the loop variables of a comprehension: "element for target in iterable if condition ...".
+     */
+    private addComprehensionBindings(content: Token[], fors: number[], scope: Scope, block: Block) {
+        const clauses = findTopLevel(content, token => token.value === 'for' || token.value === 'if');
+        fors.forEach(forIndex => {
+            const inIndex = findTopLevel(content.slice(forIndex), token => token.value === 'in')[0];
+            if (inIndex === undefined) {
+                return;
+            }
+            const valueStart = forIndex + inIndex + 1;
+            const valueEnd = clauses.find(clause => clause > valueStart) ?? content.length;
+            const value = content.slice(valueStart, valueEnd);
+            if (value.length === 0) {
+                return;
+            }
+
+            this.collectTargets(content.slice(forIndex + 1, forIndex + inIndex), []).forEach(({ name, path }) => {
+                this.addBinding(scope, {
+                    name, kind: 'comprehension', offset: value[0].start, visibleFrom: scope.start,
+                    hidden: [value[0].start, value[value.length - 1].end], block,
+                    value, path, iterate: true
+                });
+            });
+        });
+    }
+
+    /**
+     * Returns the names of an assignment target with their path in the value, e.g. "a, (b, c)".
+     * Attributes and subscripts are no bindings, starred names get no value.
+     */
+    private collectTargets(tokens: Token[], path: number[]): { name: string; path: number[] }[] {
+        tokens = stripParens(tokens);
+        if (tokens[0]?.value === '[' && findClosingBracket(tokens, 0) === tokens.length - 1) {
+            tokens = tokens.slice(1, -1);
+        }
+
+        if (isTuple(tokens)) {
+            return splitTopLevel(tokens, ',').flatMap((item, i) => this.collectTargets(item, [...path, i]));
+        }
+        if (tokens.length === 2 && tokens[0].value === '*' && tokens[1].type === 'name') {
+            return [{ name: tokens[1].value, path: [...path, -1] }];
+        }
+        if (tokens.length === 1 && tokens[0].type === 'name') {
+            return [{ name: tokens[0].value, path }];
+        }
+
+        return [];
+    }
+
+    private addBinding(
+        scope: Scope,
+        binding: Omit<Binding, 'name' | 'path' | 'iterate'> & { name?: string; path?: number[]; iterate?: boolean }
+    ): Binding | undefined {
+        if (!binding.name) {
+            return undefined;
+        }
+
+        const result: Binding = { ...binding, name: binding.name, path: binding.path ?? [], iterate: binding.iterate ?? false };
+        scope.bindings.push(result);
+        return result;
+    }
+}
+
+// Analysis per document, reused while the document version doesn't change.
+const ANALYSES = new WeakMap<vscode.TextDocument, { version: number; analysis: ScopeAnalysis }>();
+
+/**
+ * Returns the scope analysis of a document, cached per document version.
+ */
+export function getScopeAnalysis(document: vscode.TextDocument): ScopeAnalysis {
+    const cached = ANALYSES.get(document);
+    if (cached?.version === document.version) {
+        return cached.analysis;
+    }
+
+    const analysis = new ScopeAnalysis(document.getText());
+    ANALYSES.set(document, { version: document.version, analysis });
+    return analysis;
+}
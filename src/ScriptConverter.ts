@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { ModelIndex, getModelIndex } from './DataProvider';
+import { ChainAccess, findChainExpressions, findClassReferences, resolveChainAccesses } from './AutoCompletor';
+import { getActiveModelProfile } from './ModelProfiles';
+
+type ScriptLanguage = 'German' | 'English';
+
+interface NameReplacement {
+    start: number;      // Offset in the document.
+    end: number;
+    name: string;
+}
+
+// Scheme of the read-only documents with the converted scripts, shown in the diff.
+const CONVERTED_SCHEME = 'vertec-converted';
+
+// Type comments like "# type: Projekt" or "# type: (Projekt, int) -> List[Phase]".
+const TYPE_COMMENT_REGEX = /#\s*type:(.*)$/;
+const WORD_REGEX = /[A-Za-z_]\w*/g;
+
+/**
+ * Returns the name of an accessed member or association in the target language.
+ */
+function getAccessName(access: ChainAccess, language: ScriptLanguage): string | undefined {
+    if (access.member) {
+        return language === 'German' ? access.member.name : access.member.name_alt;
+    }
+    if (access.association) {
+        return language === 'German' ? access.association.perceived_name : access.association.perceived_name_alt;
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the name of a class in the target language, if the name is a class of the model.
+ */
+function getClassName(index: ModelIndex, name: string, language: ScriptLanguage): string | undefined {
+    const cls = index.findClass(name);
+    if (!cls) {
+        return undefined;
+    }
+
+    return language === 'German' ? cls.name : cls.name_alt;
+}
+
+/**
+ * Finds the member, association and class references of a line which are named in the other language:
+ * accesses of chains, classes of type comments and annotations, and class names passed to vtcapp functions.
+ */
+async function findLineReplacements(
+    document: vscode.TextDocument,
+    lineNumber: number,
+    index: ModelIndex,
+    language: ScriptLanguage
+): Promise<NameReplacement[]> {
+    const line = document.lineAt(lineNumber);
+    const lineOffset = document.offsetAt(line.range.start);
+    const replacements: NameReplacement[] = [];
+
+    const add = (column: number, oldName: string, newName: string | undefined) => {
+        if (newName && newName.toLowerCase() !== oldName.toLowerCase()) {
+            replacements.push({ start: lineOffset + column, end: lineOffset + column + oldName.length, name: newName });
+        }
+    };
+
+    for (const { chain, start, partColumns } of findChainExpressions(line.text, lineNumber)) {
+        const position = new vscode.Position(lineNumber, start + chain.length);
+        const accesses = await resolveChainAccesses(document, position, chain);
+        accesses.forEach(access => add(partColumns[access.partIndex], access.name, getAccessName(access, language)));
+    }
+
+    const typeComment = TYPE_COMMENT_REGEX.exec(line.text);
+    if (typeComment) {
+        const typeStart = typeComment.index + typeComment[0].length - typeComment[1].length;
+        let match;
+        WORD_REGEX.lastIndex = 0;
+        while ((match = WORD_REGEX.exec(typeComment[1])) !== null) {
+            add(typeStart + match.index, match[0], getClassName(index, match[0], language));
+        }
+    }
+
+    findClassReferences(document, lineNumber).forEach(({ name, column }) => add(column, name, getClassName(index, name, language)));
+
+    return replacements.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Applies the replacements to the text of the document.
+ */
+function applyReplacements(text: string, replacements: NameReplacement[]): string {
+    let result = '';
+    let position = 0;
+    for (const replacement of replacements) {
+        result += text.substring(position, replacement.start) + replacement.name;
+        position = replacement.end;
+    }
+
+    return result + text.substring(position);
+}
+
+/**
+ * Converts the script in the active editor (or the selected lines) to consistently German or
+ * consistently English model names. All resolvable member and association accesses, the classes
+ * of type comments and annotations and the class names passed to vtcapp functions are renamed. The result is shown as diff and applied after confirmation.
+ */
+export async function convertScript() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('Please open a file in the editor first.');
+        return;
+    }
+
+    try {
+        const language = await vscode.window.showQuickPick(['German', 'English'] as ScriptLanguage[], {
+            placeHolder: 'Convert the model names to ...'
+        }) as ScriptLanguage | undefined;
+        if (!language) {
+            return;
+        }
+
+        const document = editor.document;
+        const version = document.version;
+        const index = await getModelIndex(false, getActiveModelProfile(document.uri));
+        const firstLine = editor.selection.isEmpty ? 0 : editor.selection.start.line;
+        const lastLine = editor.selection.isEmpty ? document.lineCount - 1 : editor.selection.end.line;
+
+        const replacements: NameReplacement[] = [];
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Converting the script to ${language} names`,
+                cancellable: true
+            },
+            async (_progress, token) => {
+                for (let lineNumber = firstLine; lineNumber <= lastLine; lineNumber++) {
+                    if (token.isCancellationRequested) {
+                        throw new vscode.CancellationError();
+                    }
+                    replacements.push(...await findLineReplacements(document, lineNumber, index, language));
+                }
+            }
+        );
+
+        if (replacements.length === 0) {
+            vscode.window.showInformationMessage(`The script already uses ${language} names.`);
+            return;
+        }
+
+        // Show the converted script as read-only document, so nothing remains to be saved.
+        const converted = applyReplacements(document.getText(), replacements);
+        const convertedUri = document.uri.with({ scheme: CONVERTED_SCHEME, query: String(Date.now()) });
+        const registration = vscode.workspace.registerTextDocumentContentProvider(CONVERTED_SCHEME, {
+            provideTextDocumentContent: () => converted
+        });
+
+        try {
+            await vscode.commands.executeCommand('vscode.diff',
+                document.uri,
+                convertedUri,
+                `Script ↔ ${language} names`
+            );
+
+            const choice = await vscode.window.showInformationMessage(
+                `Do you want to replace ${replacements.length} names with their ${language} names?`,
+                { modal: true },
+                'Yes'
+            );
+
+            // The offsets of the replacements are only valid for the converted version of the script.
+            if (choice === 'Yes' && document.version !== version) {
+                vscode.window.showWarningMessage('The script changed meanwhile, please convert it again.');
+            } else if (choice === 'Yes') {
+                const edit = new vscode.WorkspaceEdit();
+                replacements.forEach(replacement => edit.replace(
+                    document.uri,
+                    new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+                    replacement.name
+                ));
+                await vscode.workspace.applyEdit(edit);
+            }
+        } finally {
+            // Close the diff view.
+            const diffTabs = vscode.window.tabGroups.all
+                .flatMap(group => group.tabs)
+                .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === convertedUri.toString());
+            await vscode.window.tabGroups.close(diffTabs);
+            registration.dispose();
+        }
+
+        await vscode.window.showTextDocument(document, {
+            viewColumn: editor.viewColumn,
+            preview: false
+        });
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error converting the script:', error);
+        vscode.window.showErrorMessage('An error occured while converting the script.');
+    }
+}
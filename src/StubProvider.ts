@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { VertecClass, getModel } from './DataProvider';
+import { VertecClass, getModel, onDidChangeModel } from './DataProvider';
+import { ModelProfile, DEFAULT_PROFILE_NAME, getActiveModelProfile, onDidChangeActiveModelProfile } from './ModelProfiles';
 
 /**
  * Minimal Stub Provider for Vertec Classes
@@ -12,6 +13,9 @@ import { VertecClass, getModel } from './DataProvider';
 
 let stubsDirectory: string | null = null;
 
+// Marker file with the model profile the stubs were generated for.
+const PROFILE_MARKER_FILE = '.profile';
+
 export async function activateStubProvider(context: vscode.ExtensionContext): Promise<void> {
     const globalStoragePath = context.globalStorageUri.fsPath;
     stubsDirectory = path.join(globalStoragePath, 'vertec_stubs');
@@ -20,45 +24,89 @@ export async function activateStubProvider(context: vscode.ExtensionContext): Pr
         fs.mkdirSync(stubsDirectory, { recursive: true });
     }
 
+    // Regenerate the stubs, when the user switches to another model profile
+    // or when a background refresh brought new model data.
+    context.subscriptions.push(
+        onDidChangeActiveModelProfile(profile => {
+            if (!isGeneratedForProfile(profile)) {
+                reloadStubs().catch(error => console.error('Error reloading the stubs:', error));
+            }
+        }),
+        onDidChangeModel(profile => {
+            if (profile.name === getActiveModelProfile().name) {
+                reloadStubs(false).catch(error => console.error('Error reloading the stubs:', error));
+            }
+        })
+    );
+
     const stubsExist = fs.existsSync(path.join(stubsDirectory, '__init__.pyi'));
 
-    if (stubsExist) {
+    if (stubsExist && isGeneratedForProfile(getActiveModelProfile())) {
         await configurePylance(stubsDirectory);
     } else {
         await reloadStubs();
     }
 }
 
+/**
+ * Checks if the existing stubs were generated for the given profile.
+ * Stubs without marker stem from the default model before profiles existed.
+ */
+function isGeneratedForProfile(profile: ModelProfile): boolean {
+    if (!stubsDirectory) {
+        return false;
+    }
+
+    const markerPath = path.join(stubsDirectory, PROFILE_MARKER_FILE);
+    if (!fs.existsSync(markerPath)) {
+        return profile.name === DEFAULT_PROFILE_NAME;
+    }
+
+    return fs.readFileSync(markerPath, 'utf8') === getProfileMarker(profile);
+}
+
+/**
+ * Returns the marker content identifying a profile.
+ */
+function getProfileMarker(profile: ModelProfile): string {
+    return `${profile.name}|${profile.url}`;
+}
+
 /**
  * Force regeneration of stubs (can be called externally)
+ * @param showMessage optional: show a message when done.
  */
-export async function reloadStubs(): Promise<void> {
+export async function reloadStubs(showMessage = true): Promise<void> {
     if (!stubsDirectory) {
         throw new Error('Stub directory not initialized');
     }
 
-    const classes = await getModel<VertecClass>(false);
+    const profile = getActiveModelProfile();
+    const classes = await getModel<VertecClass>(false, profile);
     if (!classes || classes.length === 0) {
         throw new Error('No model data available');
     }
 
     await generateStubfile(classes, stubsDirectory);
+    fs.writeFileSync(path.join(stubsDirectory, PROFILE_MARKER_FILE), getProfileMarker(profile));
 
     await configurePylance(stubsDirectory);
 
-    vscode.window.showInformationMessage(
-        `Reloaded ${classes.length} stub files!`
-    );
+    if (showMessage) {
+        vscode.window.showInformationMessage(
+            `Reloaded ${classes.length} stub files!`
+        );
+    }
 }
 
 /**
  * Generate minimal stub files that don't interfere with completion
  */
 async function generateStubfile(classes: VertecClass[], outputDir: string): Promise<void> {
+    // Start with an empty module, classes of another model profile must not remain.
     const vertecModuleDir = path.join(outputDir, 'vertec');
-    if (!fs.existsSync(vertecModuleDir)) {
-        fs.mkdirSync(vertecModuleDir, { recursive: true });
-    }
+    fs.rmSync(vertecModuleDir, { recursive: true, force: true });
+    fs.mkdirSync(vertecModuleDir, { recursive: true });
 
     // Generate __init__.pyi
     const initContent = generateInitStub(classes);
@@ -101,9 +149,9 @@ function generateClassStub(vertecClass: VertecClass): string {
     lines.push(`class ${vertecClass.name}(${parentClass}):`);
 
     if (vertecClass.description) {
-        lines.push(`    """${vertecClass.description}"""`);
+        lines.push(`    """${vertecClass.description}${vertecClass.is_custom ? ' (custom class)' : ''}"""`);
     } else {
-        lines.push(`    """Vertec class: ${vertecClass.name}"""`);
+        lines.push(`    """${vertecClass.is_custom ? 'Custom' : 'Vertec'} class: ${vertecClass.name}"""`);
     }
     lines.push('');
 
@@ -0,0 +1,395 @@
+import * as vscode from 'vscode';
+import { VertecTranslation, getModelIndex, getTranslations } from './DataProvider';
+import { TRANSLATION_LANGUAGES, TranslationLanguage, getDefaultTranslationLanguage, getGermanValue } from './Translator';
+import { GLOSSARY_FILE, GlossaryTranslation, applyGlossary, pickGlossaryFolder, writeGlossaryEntries } from './Glossary';
+import { toCsv } from './ModelExport';
+import { getActiveModelProfile } from './ModelProfiles';
+
+type TranslationExportFormat = 'csv' | 'xliff12' | 'xliff20';
+
+type Language = (typeof TRANSLATION_LANGUAGES)[number];
+
+// Original of the exported XLIFF files, followed by the source and target language code,
+// e.g. "vertec-translations:NVD:FR0". Allows to import the variants into the right language.
+const XLIFF_ORIGINAL = 'vertec-translations';
+
+/**
+ * Translation unit of an XLIFF file. The key is the German text of the translation.
+ */
+interface XliffUnit {
+    key?: string;
+    source: string;
+    target?: string;
+}
+
+/**
+ * Shows a quick pick to select the translations to export: all, by search term or by model classes.
+ * @returns the selected translations or undefined if cancelled.
+ */
+async function pickTranslations(translations: GlossaryTranslation[]): Promise<GlossaryTranslation[] | undefined> {
+    const scope = await vscode.window.showQuickPick([
+        { label: 'All translations', detail: `${translations.length} entries`, scope: 'all' },
+        { label: 'Search term ...', detail: 'Entries containing a text in any language', scope: 'search' },
+        { label: 'Model classes ...', detail: 'Entries for the names of classes, their members and associations', scope: 'model' }
+    ], { placeHolder: 'Which translations do you want to export?' });
+
+    switch (scope?.scope) {
+        case 'all':
+            return translations;
+
+        case 'search': {
+            const term = await vscode.window.showInputBox({ prompt: 'Export the translations containing ...' });
+            if (!term?.trim()) {
+                return undefined;
+            }
+            const search = term.trim().toLowerCase();
+            return translations.filter(translation => TRANSLATION_LANGUAGES
+                .some(language => translation[language.code]?.toLowerCase().includes(search)));
+        }
+
+        case 'model': {
+            const index = await getModelIndex(false, getActiveModelProfile());
+            const selection = await vscode.window.showQuickPick(
+                index.classes.map(cls => ({ label: `${cls.name} | ${cls.name_alt}`, description: `(ID: ${cls.class_id})`, cls })),
+                { placeHolder: 'Select the classes ...', canPickMany: true, matchOnDescription: true }
+            );
+            if (!selection || selection.length === 0) {
+                return undefined;
+            }
+
+            // Class, member and association names, including the inherited ones.
+            const names = new Set<string>();
+            const add = (name?: string) => name && names.add(name.toLowerCase());
+            selection.forEach(({ cls }) => {
+                const { members, associations } = index.resolve(cls);
+                add(cls.name);
+                add(cls.name_alt);
+                members.forEach(member => { add(member.name); add(member.name_alt); });
+                associations.forEach(assoc => { add(assoc.perceived_name); add(assoc.perceived_name_alt); });
+            });
+
+            return translations.filter(translation => TRANSLATION_LANGUAGES
+                .some(language => names.has(translation[language.code]?.trim().toLowerCase() ?? '')));
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Shows a quick pick to select a language, the given language is on top.
+ */
+async function pickTranslationLanguage(placeHolder: string, preferred: TranslationLanguage, exclude?: TranslationLanguage): Promise<Language | undefined> {
+    const selection = await vscode.window.showQuickPick(
+        TRANSLATION_LANGUAGES
+            .filter(language => language.code !== exclude)
+            .sort((a, b) => Number(b.code === preferred) - Number(a.code === preferred))
+            .map(language => ({
+                label: language.label,
+                description: `${language.code} | ${language.variant} | ${language.locale}`,
+                language
+            })),
+        { placeHolder, matchOnDescription: true }
+    );
+
+    return selection?.language;
+}
+
+/**
+ * Creates a CSV table with one column per language, headed by the locale and the language code.
+ */
+function exportCsv(translations: GlossaryTranslation[]): string {
+    return toCsv(
+        [...TRANSLATION_LANGUAGES.map(language => `${language.locale} (${language.code})`), 'origin'],
+        translations.map(translation => [
+            ...TRANSLATION_LANGUAGES.map(language => translation[language.code]),
+            translation.is_local ? 'Glossary' : 'Vertec'
+        ])
+    );
+}
+
+/**
+ * Escapes text for XML content and attributes.
+ */
+function xmlText(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Creates an XLIFF 1.2 or 2.0 file for one source and target language. Entries without source text are skipped,
+ * entries without target text are exported without target, to be translated.
+ */
+function exportXliff(translations: GlossaryTranslation[], source: Language, target: Language, version: '1.2' | '2.0'): string {
+    const original = `${XLIFF_ORIGINAL}:${source.code}:${target.code}`;
+    const units = translations
+        .filter(translation => translation[source.code]?.trim())
+        .map((translation, i) => {
+            // The German text identifies the entry on import, entries without it are exported without key.
+            const german = getGermanValue(translation);
+            const key = german ? (version === '1.2' ? ` resname="${xmlText(german)}"` : ` name="${xmlText(german)}"`) : '';
+            const sourceText = xmlText(translation[source.code]!.trim());
+            const targetText = translation[target.code]?.trim();
+
+            return version === '1.2'
+                ? [
+                    `            <trans-unit id="${i + 1}"${key}>`,
+                    `                <source>${sourceText}</source>`,
+                    ...(targetText ? [`                <target state="translated">${xmlText(targetText)}</target>`] : []),
+                    '            </trans-unit>'
+                ].join('\n')
+                : [
+                    `        <unit id="u${i + 1}"${key}>`,
+                    `            <segment state="${targetText ? 'translated' : 'initial'}">`,
+                    `                <source>${sourceText}</source>`,
+                    ...(targetText ? [`                <target>${xmlText(targetText)}</target>`] : []),
+                    '            </segment>',
+                    '        </unit>'
+                ].join('\n');
+        });
+
+    if (version === '1.2') {
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+    <file original="${original}" source-language="${source.locale}" target-language="${target.locale}" datatype="plaintext">
+        <body>
+${units.join('\n')}
+        </body>
+    </file>
+</xliff>
+`;
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${source.locale}" trgLang="${target.locale}">
+    <file id="f1" original="${original}">
+${units.join('\n')}
+    </file>
+</xliff>
+`;
+}
+
+/**
+ * Exports the translations and the glossary (all, by search term or by model classes) to a CSV table
+ * with all languages or to an XLIFF 1.2 / 2.0 file for translation agencies.
+ */
+export async function exportTranslations() {
+    try {
+        const translations = await applyGlossary(await getTranslations<VertecTranslation>(false));
+        if (!translations || translations.length === 0) {
+            vscode.window.showWarningMessage('No translations found.');
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick<{ label: string; detail: string; format: TranslationExportFormat }>([
+            { label: 'CSV', detail: 'Table with all languages', format: 'csv' },
+            { label: 'XLIFF 1.2', detail: 'One source and target language, for translation tools', format: 'xliff12' },
+            { label: 'XLIFF 2.0', detail: 'One source and target language, for translation tools', format: 'xliff20' }
+        ], { placeHolder: 'Select the export format ...' });
+        if (!format) {
+            return;
+        }
+
+        const selected = await pickTranslations(translations);
+        if (!selected) {
+            return;
+        }
+        if (selected.length === 0) {
+            vscode.window.showInformationMessage('No matching translations found.');
+            return;
+        }
+
+        let content: string;
+        let count = selected.length;
+        if (format.format === 'csv') {
+            content = exportCsv(selected);
+        } else {
+            const source = await pickTranslationLanguage('Select the source language ...', 'NVD');
+            if (!source) {
+                return;
+            }
+            const defaultTarget = getDefaultTranslationLanguage();
+            const target = await pickTranslationLanguage(
+                'Select the target language ...',
+                defaultTarget !== source.code ? defaultTarget : 'NVE',
+                source.code
+            );
+            if (!target) {
+                return;
+            }
+            content = exportXliff(selected, source, target, format.format === 'xliff12' ? '1.2' : '2.0');
+            count = selected.filter(translation => translation[source.code]?.trim()).length;
+        }
+
+        const uri = await vscode.window.showSaveDialog({
+            filters: format.format === 'csv' ? { 'CSV': ['csv'] } : { 'XLIFF': ['xlf', 'xliff'] },
+            saveLabel: 'Export translations'
+        });
+        if (!uri) {
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`Exported ${count} translations to ${uri.fsPath}.`);
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error exporting the translations:', error);
+        vscode.window.showErrorMessage('An error occured while exporting the translations.');
+    }
+}
+
+/**
+ * Returns the value of an XML attribute, decoded.
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(["'])(.*?)\\1`).exec(attributes);
+    return match ? decodeXml(match[2]) : undefined;
+}
+
+/**
+ * Decodes the XML entities of a text.
+ */
+function decodeXml(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+        switch (entity.toLowerCase()) {
+            case 'amp': return '&';
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+        }
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10));
+    });
+}
+
+/**
+ * Returns the texts of all elements with the given name. Inline markup of translation tools is removed.
+ */
+function getElementTexts(content: string, name: string): string[] {
+    const regex = new RegExp(`<${name}(?:\\s[^>]*)?(?<!/)>([\\s\\S]*?)</${name}>`, 'g');
+    return [...content.matchAll(regex)].map(match => decodeXml(match[1].replace(/<[^>]+>/g, '')));
+}
+
+/**
+ * Parses an XLIFF 1.2 or 2.0 file: the languages and the translation units. Segments of a unit are joined.
+ */
+function parseXliff(content: string) {
+    const xliff = /<xliff\b([^>]*)>/.exec(content);
+    const file = /<file\b([^>]*)>/.exec(content);
+    if (!xliff || !file) {
+        throw new Error('Not an XLIFF file.');
+    }
+
+    const isVersion2 = getAttribute(xliff[1], 'version')?.startsWith('2') ?? false;
+    const unitRegex = isVersion2 ? /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g : /<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g;
+    const units: XliffUnit[] = [...content.matchAll(unitRegex)].map(match => {
+        const targets = getElementTexts(match[2], 'target');
+        return {
+            key: getAttribute(match[1], isVersion2 ? 'name' : 'resname'),
+            source: getElementTexts(match[2], 'source').join('').trim(),
+            target: targets.length > 0 ? targets.join('').trim() : undefined
+        };
+    });
+
+    return {
+        original: getAttribute(file[1], 'original'),
+        sourceLocale: getAttribute(isVersion2 ? xliff[1] : file[1], isVersion2 ? 'srcLang' : 'source-language'),
+        targetLocale: getAttribute(isVersion2 ? xliff[1] : file[1], isVersion2 ? 'trgLang' : 'target-language'),
+        units
+    };
+}
+
+/**
+ * Finds the language of an imported file: by the language code of an exported file or by the locale.
+ * Asks the user, if the locale is unknown or stands for several languages (variants).
+ */
+async function findImportLanguage(code: string | undefined, locale: string | undefined, placeHolder: string, preferred: TranslationLanguage) {
+    const byCode = TRANSLATION_LANGUAGES.find(language => language.code === code);
+    if (byCode) {
+        return byCode;
+    }
+
+    const byLocale = TRANSLATION_LANGUAGES.filter(language => language.locale.toLowerCase() === locale?.toLowerCase());
+    if (byLocale.length === 1) {
+        return byLocale[0];
+    }
+
+    return pickTranslationLanguage(locale ? `${placeHolder} (${locale})` : placeHolder, byLocale[0]?.code ?? preferred);
+}
+
+/**
+ * Imports the translated texts of an XLIFF 1.2 or 2.0 file (e.g. returned by a translation agency)
+ * into the glossary of the workspace. Entries with the same German text are updated.
+ */
+export async function importTranslations() {
+    try {
+        const folder = await pickGlossaryFolder();
+        if (!folder) {
+            vscode.window.showWarningMessage('Please open a workspace folder first.');
+            return;
+        }
+
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'XLIFF': ['xlf', 'xliff'] },
+            openLabel: 'Import translations'
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const xliff = parseXliff(Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8'));
+        const codes = xliff.original?.startsWith(`${XLIFF_ORIGINAL}:`) ? xliff.original.split(':').slice(1) : [];
+        // Only files exported by the extension use the german text as unit key, other tools use arbitrary ids.
+        const isOwnExport = codes.length > 0;
+
+        const source = await findImportLanguage(codes[0], xliff.sourceLocale, 'Select the source language ...', 'NVD');
+        if (!source) {
+            return;
+        }
+        const target = await findImportLanguage(codes[1], xliff.targetLocale, 'Select the target language ...', getDefaultTranslationLanguage());
+        if (!target) {
+            return;
+        }
+
+        // The glossary identifies entries by their German text, units without it can't be imported.
+        const translated = xliff.units.filter(unit => unit.source && unit.target);
+        const entries = translated
+            .map(unit => {
+                const entry: VertecTranslation = {
+                    NVD: (isOwnExport ? unit.key : undefined) ?? (source.code === 'NVD' ? unit.source : undefined)
+                };
+                entry[source.code] = unit.source;
+                entry[target.code] = unit.target;
+                return entry;
+            })
+            .filter(entry => entry.NVD);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(translated.length === 0
+                ? 'The file contains no translated texts.'
+                : 'The file contains no translated texts with German text.');
+            return;
+        }
+
+        const added = await writeGlossaryEntries(folder, entries);
+        const skipped = translated.length - entries.length;
+        vscode.window.showInformationMessage(
+            `Imported ${entries.length} translations (${added} new) into ${vscode.workspace.asRelativePath(vscode.Uri.joinPath(folder.uri, GLOSSARY_FILE))}.`
+            + (skipped > 0 ? ` Skipped ${skipped} translations without German text.` : '')
+        );
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error importing the translations:', error);
+        vscode.window.showErrorMessage(`An error occured while importing the translations: ${error instanceof Error ? error.message : error}`);
+    }
+}
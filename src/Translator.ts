@@ -1,78 +1,120 @@
 import { QuickPickItem, window } from 'vscode';
 import * as vscode from 'vscode';
-import { getTranslations, getModel, VertecTranslation, VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, createEnrichedVertecMember, createEnrichedVertecAssociation } from './DataProvider';
+import { getTranslations, getModel, getCachedModel, getCachedTranslations, onDidChangeCacheStatus, getModelIndex, ModelIndex, VertecTranslation, VertecClass, EnrichedVertecMember, EnrichedVertecAssociation, createEnrichedVertecMember, createEnrichedVertecAssociation } from './DataProvider';
+import { resolveChainAccesses, resolveClassAtPosition } from './AutoCompletor';
+import { getActiveModelProfile } from './ModelProfiles';
+import { applyGlossary, GlossaryTranslation } from './Glossary';
+import { tokenize } from './PythonScope';
 
-class TranslationQuickPickItem implements QuickPickItem {
+export type TranslationLanguage = keyof VertecTranslation;
+
+/**
+ * Language and variant columns of the translations, in the order shown in the language picker.
+ * The variants distinguish the project (0) and matters (1) terminology. The locale is used for exports.
+ */
+export const TRANSLATION_LANGUAGES: { code: TranslationLanguage; label: string; variant: string; locale: string }[] = [
+	{ code: 'NVD', label: 'Deutsch', variant: 'Standard', locale: 'de' },
+	{ code: 'NVE', label: 'Englisch', variant: 'Standard', locale: 'en' },
+	{ code: 'DE0', label: 'Deutsch (Schweiz)', variant: 'Projekt', locale: 'de-CH' },
+	{ code: 'DE1', label: 'Deutsch (Schweiz)', variant: 'Mandat', locale: 'de-CH' },
+	{ code: 'DD0', label: 'Deutsch (Deutschland)', variant: 'Projekt', locale: 'de-DE' },
+	{ code: 'DD1', label: 'Deutsch (Deutschland)', variant: 'Mandat', locale: 'de-DE' },
+	{ code: 'EN0', label: 'Englisch', variant: 'Projekt', locale: 'en' },
+	{ code: 'EN1', label: 'Englisch', variant: 'Mandat', locale: 'en' },
+	{ code: 'FR0', label: 'Französisch', variant: 'Projekt', locale: 'fr-CH' },
+	{ code: 'FR1', label: 'Französisch', variant: 'Mandat', locale: 'fr-CH' },
+	{ code: 'IT0', label: 'Italienisch', variant: 'Projekt', locale: 'it-CH' },
+	{ code: 'IT1', label: 'Italienisch', variant: 'Mandat', locale: 'it-CH' },
+];
+
+/**
+ * Quick pick item with the values of all languages, the label is the German value.
+ */
+interface TranslatableQuickPickItem extends QuickPickItem {
+	values: VertecTranslation;
+}
+
+/**
+ * Returns the first German value of a translation.
+ */
+export function getGermanValue(translation: VertecTranslation): string {
+	return translation.NVD || translation.DD0 || translation.DE0 || translation.DD1 || translation.DE1 || '';
+}
+
+/**
+ * Returns the first English value of a translation.
+ */
+export function getEnglishValue(translation: VertecTranslation): string {
+	return translation.NVE || translation.EN0 || translation.EN1 || '';
+}
+
+class TranslationQuickPickItem implements TranslatableQuickPickItem {
 	label: string;
 	description: string;
 	detail: string;
+	values: VertecTranslation;
 
-	constructor(translation: VertecTranslation) {
-		let de = '';
-		if (translation.NVD) {
-			de = translation.NVD;
-		} else if (translation.DD0) {
-			de = translation.DD0;
-		} else if (translation.DE0) {
-			de = translation.DE0;
-		} else if (translation.DD1) {
-			de = translation.DD1;
-		} else if (translation.DE1) {
-			de = translation.DE1;
-		}
+	constructor(translation: GlossaryTranslation) {
+		const de = getGermanValue(translation);
+		const en = getEnglishValue(translation);
 
-		let en = '';
-		if (translation.NVE) {
-			en = translation.NVE;
-		} else if (translation.EN0) {
-			en = translation.EN0;
-		} else if (translation.EN1) {
-			en = translation.EN1;
-		}
+		this.label = de || en || TRANSLATION_LANGUAGES.map(language => translation[language.code]).find(Boolean) || '';
+		this.description = translation.is_local ? 'Glossary' : '';
+		this.values = translation;
 
-		this.label = de || en;
-		this.description = '';
-		this.detail = en || de;
+		// All other values, so the search matches every language.
+		const others = new Set<string>();
+		[en, ...TRANSLATION_LANGUAGES.map(language => translation[language.code])].forEach(value => {
+			if (value && value !== this.label) {
+				others.add(value);
+			}
+		});
+		this.detail = [...others].join(' | ') || this.label;
 	}
 }
 
-class ClassQuickPickItem implements QuickPickItem {
+class ClassQuickPickItem implements TranslatableQuickPickItem {
 	label: string;
 	description: string;
 	detail: string;
+	values: VertecTranslation;
 
 	constructor(verteclass: VertecClass) {
 		this.label = verteclass.name;
 		this.description = '';
 		this.detail = verteclass.name_alt || verteclass.name;
+		this.values = { NVD: this.label, NVE: this.detail };
 	}
 }
 
-class MemberQuickPickItem implements QuickPickItem {
+class MemberQuickPickItem implements TranslatableQuickPickItem {
 	label: string;
 	description: string;
 	detail: string;
+	values: VertecTranslation;
 
 	constructor(member: EnrichedVertecMember) {
 		this.label = member.name;
-		this.description = '';
+		this.description = member.sourceClass ?? '';
 		this.detail = member.name_alt;
+		this.values = { NVD: this.label, NVE: this.detail || this.label };
 	}
 }
 
-class AssociationQuickPickItem implements QuickPickItem {
+class AssociationQuickPickItem implements TranslatableQuickPickItem {
 	label: string;
 	description: string;
 	detail: string;
+	values: VertecTranslation;
 
 	constructor(association: EnrichedVertecAssociation) {
 		this.label = association.perceived_name;
-		this.description = '';
+		this.description = association.sourceClass ?? '';
 		this.detail = association.perceived_name_alt || association.perceived_name;
+		this.values = { NVD: this.label, NVE: this.detail };
 	}
 }
 
-const LANGUAGES = ['Englisch', 'Deutsch'];
 const TASK_COPY = 'Copy value';
 const TASK_INSERT = 'Insert value';
 const TASKS = [TASK_COPY, TASK_INSERT];
@@ -81,7 +123,7 @@ const TASKS = [TASK_COPY, TASK_INSERT];
  * Shows a quick pick to select a member, then a language and finally a task to do with the translation (copy or insert).
  */
 async function showTranslationDialogues(
-	quickpicks: QuickPickItem[],
+	quickpicks: TranslatableQuickPickItem[],
 	placeholder: string,
 ) {
 	try {
@@ -100,19 +142,13 @@ async function showTranslationDialogues(
 		}
 
 		// Select language
-		const language = await pickLanguage();
+		const language = await pickLanguage(selection.values);
 		if (!language) {
 			return;
 		}
 
 		// Get translation text.
-		let translation = '';
-		if (language == 'Deutsch') {
-			translation = selection.label;
-		} else {
-			translation = selection.detail || selection.label;
-		}
-		translation = translation.trim();
+		const translation = (selection.values[language] ?? selection.label).trim();
 
 		// Select task. If we have no editor, we can only copy the value, but not insert it.
 		const editor = vscode.window.activeTextEditor;
@@ -156,15 +192,37 @@ function filterUniqueBy<T>(array: T[], ...keys: (keyof T)[]): T[] {
 }
 
 /**
- * Shows a quick pick to select a language.
+ * Returns the configured default target language.
  */
-async function pickLanguage() {
-	return await window.showQuickPick(
-		LANGUAGES,
+export function getDefaultTranslationLanguage(): TranslationLanguage {
+	const language = vscode.workspace.getConfiguration('vertecVscodeExtension').get<string>('DefaultTranslationLanguage', 'NVE');
+	return TRANSLATION_LANGUAGES.find(l => l.code === language)?.code ?? 'NVE';
+}
+
+/**
+ * Shows a quick pick to select one of the languages with a value. The default language is on top.
+ */
+async function pickLanguage(values: VertecTranslation): Promise<TranslationLanguage | undefined> {
+	const defaultLanguage = getDefaultTranslationLanguage();
+	const items = TRANSLATION_LANGUAGES
+		.filter(language => values[language.code])
+		.sort((a, b) => Number(b.code === defaultLanguage) - Number(a.code === defaultLanguage))
+		.map(language => ({
+			label: language.label,
+			description: `${language.code} | ${language.variant}${language.code === defaultLanguage ? ' (default)' : ''}`,
+			detail: values[language.code],
+			code: language.code
+		}));
+
+	const selection = await window.showQuickPick(
+		items,
 		{
 			placeHolder: 'Search for a language ...',
+			matchOnDescription: true,
 		}
 	);
+
+	return selection?.code;
 }
 
 /**
@@ -209,36 +267,95 @@ export async function translateClass() {
 }
 
 /**
- * Shows a quick pick to select a member, then a language and finally a task to do with the translation (copy or insert).
+ * Finds the class of the expression under the cursor, e.g. "Projekt" for "projekt.phasen".
+ */
+async function findClassAtCursor(index: ModelIndex): Promise<VertecClass | null> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor || editor.document.languageId !== 'python') {
+		return null;
+	}
+
+	const position = editor.selection.active;
+	const className = await resolveClassAtPosition(editor.document, position);
+	if (className) {
+		return index.findClass(className);
+	}
+
+	// A class name itself, e.g. in a type comment.
+	const wordRange = editor.document.getWordRangeAtPosition(position);
+	return wordRange ? index.findClass(editor.document.getText(wordRange)) : null;
+}
+
+/**
+ * Shows a quick pick to select the class of the members. The class at the cursor is on top.
+ * @returns the class, null for all classes or undefined if cancelled.
+ */
+async function pickMemberClass(classes: VertecClass[], classAtCursor: VertecClass | null): Promise<VertecClass | null | undefined> {
+	const items = [
+		...(classAtCursor ? [{ label: classAtCursor.name, description: 'At cursor', detail: classAtCursor.name_alt, cls: classAtCursor }] : []),
+		{ label: 'All classes', description: 'Members and associations of all classes', detail: undefined, cls: null },
+		...classes
+			.filter(cls => cls !== classAtCursor)
+			.sort((a, b) => a.name.localeCompare(b.name))
+			.map(cls => ({ label: cls.name, description: '', detail: cls.name_alt, cls }))
+	];
+
+	const selection = await window.showQuickPick(
+		items,
+		{
+			placeHolder: 'Search for the class of the member ...',
+			matchOnDetail: true,
+		}
+	);
+
+	return selection?.cls;
+}
+
+/**
+ * Shows a quick pick to select the class (or all classes), then a member, a language and finally a task to do
+ * with the translation (copy or insert). The owning class is shown with each member, inherited members included.
  */
 export async function translateMember() {
 	try {
 		// Load data (uses the cache, if available)
-		const classes = await getModel<VertecClass>(false);
+		const index = await getModelIndex(false, getActiveModelProfile(vscode.window.activeTextEditor?.document.uri));
+		const classes = index.classes;
 
 		if (!classes || classes.length === 0) {
 			vscode.window.showWarningMessage('No classes found.');
 			return;
 		}
 
-		// Create quick pick items for all members and associations of all classes.
-		const memberQuickPickItems: QuickPickItem[] = [];
-		classes.forEach(vertecclass => {
-			if (vertecclass.members) {
-				vertecclass.members.forEach(member => {
-					memberQuickPickItems.push(new MemberQuickPickItem(createEnrichedVertecMember(member)));
-				});
-			}
-			if (vertecclass.associations) {
-				vertecclass.associations.forEach(association => {
-					memberQuickPickItems.push(new AssociationQuickPickItem(createEnrichedVertecAssociation(association)));
-				});
-			}
-		});
+		const scope = await pickMemberClass(classes, await findClassAtCursor(index));
+		if (scope === undefined) {
+			return;
+		}
+
+		// Create quick pick items for the members and associations of the class or of all classes.
+		const memberQuickPickItems: TranslatableQuickPickItem[] = [];
+		if (scope) {
+			const resolved = index.resolve(scope);
+			resolved.members.forEach(member => memberQuickPickItems.push(new MemberQuickPickItem(member)));
+			resolved.associations.forEach(association => memberQuickPickItems.push(new AssociationQuickPickItem(association)));
+		} else {
+			classes.forEach(vertecclass => {
+				const sourceClass = vertecclass.name_alt || vertecclass.name;
+				if (vertecclass.members) {
+					vertecclass.members.forEach(member => {
+						memberQuickPickItems.push(new MemberQuickPickItem(createEnrichedVertecMember(member, sourceClass)));
+					});
+				}
+				if (vertecclass.associations) {
+					vertecclass.associations.forEach(association => {
+						memberQuickPickItems.push(new AssociationQuickPickItem(createEnrichedVertecAssociation(association, sourceClass)));
+					});
+				}
+			});
+		}
 
 		await showTranslationDialogues(
-			filterUniqueBy(memberQuickPickItems, 'label', 'detail').sort((a, b) => a.label.localeCompare(b.label)),
-			'Search for a member or association ...'
+			filterUniqueBy(memberQuickPickItems, 'label', 'detail', 'description').sort((a, b) => a.label.localeCompare(b.label)),
+			scope ? `Search for a member or association of ${scope.name} ...` : 'Search for a member or association ...'
 		);
 
 
@@ -253,8 +370,8 @@ export async function translateMember() {
  */
 export async function translateText() {
 	try {
-		// Load data (uses the cache, if available).
-		const translations = await getTranslations<VertecTranslation>(false);
+		// Load data (uses the cache, if available), the glossary of the workspace first.
+		const translations = await applyGlossary(await getTranslations<VertecTranslation>(false));
 
 		if (!translations || translations.length === 0) {
 			vscode.window.showWarningMessage('No translations found.');
@@ -276,3 +393,488 @@ export async function translateText() {
 		vscode.window.showErrorMessage('An error occured while loading the translations data.');
 	}
 }
+
+
+/**
+ * A possible replacement of an identifier or text in the other language.
+ */
+interface TranslationCandidate {
+	replacement: string;
+	kind: 'Class' | 'Member' | 'Association' | 'Translation';
+	detail: string;
+}
+
+// German language columns, their counterpart is the default target language (or English).
+const GERMAN_LANGUAGES: TranslationLanguage[] = ['NVD', 'DE0', 'DE1', 'DD0', 'DD1'];
+
+// Lookups by lowercased name or text, built once per loaded data.
+const MODEL_LOOKUPS = new WeakMap<VertecClass[], Map<string, TranslationCandidate[]>>();
+const TRANSLATION_LOOKUPS = new WeakMap<GlossaryTranslation[], Map<string, { translation: GlossaryTranslation; language: TranslationLanguage }[]>>();
+
+/**
+ * Adds a candidate to a lookup, unless the same replacement of the same kind exists.
+ */
+function addCandidate(lookup: Map<string, TranslationCandidate[]>, name: string | undefined, candidate: TranslationCandidate) {
+	if (!name || !candidate.replacement || name.toLowerCase() === candidate.replacement.toLowerCase()) {
+		return;
+	}
+
+	const key = name.toLowerCase();
+	const candidates = lookup.get(key) ?? [];
+	if (!candidates.some(c => c.kind === candidate.kind && c.replacement === candidate.replacement)) {
+		candidates.push(candidate);
+	}
+	lookup.set(key, candidates);
+}
+
+/**
+ * Returns the counterparts of all class, member and association names of the model.
+ */
+function getModelLookup(classes: VertecClass[]): Map<string, TranslationCandidate[]> {
+	let lookup = MODEL_LOOKUPS.get(classes);
+	if (lookup) {
+		return lookup;
+	}
+
+	lookup = new Map<string, TranslationCandidate[]>();
+	for (const cls of classes) {
+		addCandidate(lookup, cls.name, { replacement: cls.name_alt, kind: 'Class', detail: cls.name });
+		addCandidate(lookup, cls.name_alt, { replacement: cls.name, kind: 'Class', detail: cls.name });
+
+		cls.members?.forEach(member => {
+			addCandidate(lookup!, member.name, { replacement: member.name_alt, kind: 'Member', detail: cls.name });
+			addCandidate(lookup!, member.name_alt, { replacement: member.name, kind: 'Member', detail: cls.name });
+		});
+		cls.associations?.forEach(assoc => {
+			addCandidate(lookup!, assoc.perceived_name, { replacement: assoc.perceived_name_alt ?? '', kind: 'Association', detail: cls.name });
+			addCandidate(lookup!, assoc.perceived_name_alt, { replacement: assoc.perceived_name, kind: 'Association', detail: cls.name });
+		});
+	}
+
+	MODEL_LOOKUPS.set(classes, lookup);
+	return lookup;
+}
+
+/**
+ * Returns the translations by their lowercased values in every language.
+ */
+function getTranslationLookup(translations: GlossaryTranslation[]) {
+	let lookup = TRANSLATION_LOOKUPS.get(translations);
+	if (lookup) {
+		return lookup;
+	}
+
+	lookup = new Map<string, { translation: GlossaryTranslation; language: TranslationLanguage }[]>();
+	for (const translation of translations) {
+		for (const { code } of TRANSLATION_LANGUAGES) {
+			const value = translation[code]?.trim().toLowerCase();
+			if (value) {
+				const entries = lookup.get(value) ?? [];
+				entries.push({ translation, language: code });
+				lookup.set(value, entries);
+			}
+		}
+	}
+
+	TRANSLATION_LOOKUPS.set(translations, lookup);
+	return lookup;
+}
+
+/**
+ * Returns the counterpart of a translation: German texts are translated to the default target language
+ * (English, if the default is German), all other languages to German.
+ */
+function getCounterpart(translation: VertecTranslation, language: TranslationLanguage): string {
+	if (!GERMAN_LANGUAGES.includes(language)) {
+		return getGermanValue(translation);
+	}
+
+	const target = getDefaultTranslationLanguage();
+	return (!GERMAN_LANGUAGES.includes(target) && translation[target]) || getEnglishValue(translation);
+}
+
+/**
+ * Returns the text to translate: the selection or the word at the cursor.
+ */
+function getTranslatableRange(document: vscode.TextDocument, range: vscode.Range): vscode.Range | undefined {
+	if (!range.isEmpty) {
+		return range;
+	}
+
+	return document.getWordRangeAtPosition(range.start);
+}
+
+/**
+ * Finds the replacements of a text in the other language. A member access like "projekt.phasen"
+ * is resolved with the model, so only the accessed member is offered. Otherwise class, member
+ * and association names and translation texts are searched.
+ * @param cachedOnly optional: only use the loaded model and translations, for passive callers like code actions.
+ */
+async function findTranslationCandidates(
+	document: vscode.TextDocument,
+	range: vscode.Range,
+	cachedOnly = false
+): Promise<TranslationCandidate[]> {
+	const text = document.getText(range).trim();
+	if (!text) {
+		return [];
+	}
+
+	const profile = getActiveModelProfile(document.uri);
+	const classes = cachedOnly
+		? await getCachedModel<VertecClass>(profile)
+		: await getModel<VertecClass>(false, profile);
+
+	// Member or association access, resolve the owning class.
+	const textBefore = document.lineAt(range.start.line).text.substring(0, range.start.character);
+	const chainMatch = range.isSingleLine ? textBefore.match(/(\w+(?:\.\w+|\[[\d\w]+\])*)\.$/) : null;
+	if (classes && chainMatch && /^\w+$/.test(text)) {
+		const chain = `${chainMatch[1]}.${text}`;
+		const accesses = await resolveChainAccesses(document, range.end, chain);
+		const access = accesses.length > 0 && accesses[accesses.length - 1].name === text
+			? accesses[accesses.length - 1]
+			: undefined;
+		const replacement = access?.member
+			? (text.toLowerCase() === access.member.name ? access.member.name_alt : access.member.name)
+			: access?.association
+				? (text.toLowerCase() === access.association.perceived_name ? access.association.perceived_name_alt : access.association.perceived_name)
+				: undefined;
+		if (access && replacement) {
+			return [{ replacement, kind: access.member ? 'Member' : 'Association', detail: access.ownerClass.name }];
+		}
+	}
+
+	const candidates: TranslationCandidate[] = [];
+
+	if (classes) {
+		candidates.push(...(getModelLookup(classes).get(text.toLowerCase()) ?? []));
+	}
+
+	const translations = cachedOnly
+		? await getCachedTranslations<VertecTranslation>()
+		: await getTranslations<VertecTranslation>(false);
+	const lookup = translations ? getTranslationLookup(await applyGlossary(translations)) : null;
+	lookup?.get(text.toLowerCase())?.forEach(({ translation, language }) => {
+		const replacement = getCounterpart(translation, language).trim();
+		if (replacement && replacement.toLowerCase() !== text.toLowerCase()
+			&& !candidates.some(c => c.kind === 'Translation' && c.replacement === replacement)) {
+			candidates.push({ replacement, kind: 'Translation', detail: translation.is_local ? `${language}, glossary` : language });
+		}
+	});
+
+	return candidates;
+}
+
+/**
+ * Replaces the word or selection under the cursor by its counterpart in the other language.
+ * Asks only if there are several possible translations.
+ */
+export async function translateAtCursor() {
+	try {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			vscode.window.showWarningMessage('Open an editor to translate the text at the cursor.');
+			return;
+		}
+
+		const range = getTranslatableRange(editor.document, editor.selection);
+		if (!range) {
+			vscode.window.showWarningMessage('Place the cursor on a word or select a text to translate.');
+			return;
+		}
+
+		const candidates = await findTranslationCandidates(editor.document, range);
+		if (candidates.length === 0) {
+			vscode.window.showInformationMessage(`No translation found for "${editor.document.getText(range).trim()}".`);
+			return;
+		}
+
+		let candidate: TranslationCandidate | undefined = candidates[0];
+		if (candidates.length > 1) {
+			const selection = await window.showQuickPick(
+				candidates.map(c => ({ label: c.replacement, description: `${c.kind} | ${c.detail}`, candidate: c })),
+				{ placeHolder: 'Several translations found, select one ...', matchOnDescription: true }
+			);
+			candidate = selection?.candidate;
+		}
+		if (!candidate) {
+			return;
+		}
+
+		const replacement = candidate.replacement;
+		await editor.edit(e => {
+			e.replace(range, replacement);
+		});
+
+	} catch (error) {
+		console.error('Error translating the text:', error);
+		vscode.window.showErrorMessage('An error occured while translating the text.');
+	}
+}
+
+/**
+ * Offers the translations of the word or selection under the cursor as quick fixes.
+ */
+class TranslationCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorRewrite];
+
+	async provideCodeActions(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.CodeAction[]> {
+		const translatableRange = getTranslatableRange(document, range);
+		if (!translatableRange) {
+			return [];
+		}
+
+		try {
+			const candidates = await findTranslationCandidates(document, translatableRange, true);
+			return candidates.map(candidate => {
+				const action = new vscode.CodeAction(
+					`Translate to "${candidate.replacement}" (${candidate.kind})`,
+					vscode.CodeActionKind.RefactorRewrite
+				);
+				action.edit = new vscode.WorkspaceEdit();
+				action.edit.replace(document.uri, translatableRange, candidate.replacement);
+				return action;
+			});
+		} catch (error) {
+			console.error('Error providing the translations:', error);
+			return [];
+		}
+	}
+}
+
+// String tokens without prefix on a single line. Triple quoted strings don't match and are ignored.
+const STRING_LITERAL_REGEX = /^(["'])((?:\\.|(?!\1).)*)\1$/;
+
+const REPLACE_STRING_COMMAND = 'vertec.translator.replaceString';
+
+/**
+ * String literal whose text is a translation value in any language.
+ */
+interface TranslatedString {
+	range: vscode.Range;		// Literal including the quotes.
+	quote: string;
+	text: string;
+	translations: GlossaryTranslation[];
+}
+
+/**
+ * Returns the lookup of the loaded translations and the glossary, without loading the translations.
+ * @returns null if the translations are not loaded.
+ */
+async function getCachedTranslationLookup() {
+	const translations = await getCachedTranslations<VertecTranslation>();
+	return translations ? getTranslationLookup(await applyGlossary(translations)) : null;
+}
+
+/**
+ * Finds the string literals of a document which match a translation value. Comments are skipped by the tokenizer.
+ * @param line optional: only the string literals of this line.
+ */
+function findTranslatedStrings(document: vscode.TextDocument, lookup: ReturnType<typeof getTranslationLookup>, line?: number): TranslatedString[] {
+	const result: TranslatedString[] = [];
+
+	tokenize(document.getText()).forEach(token => {
+		const match = token.type === 'string' && (line === undefined || token.line === line) ? STRING_LITERAL_REGEX.exec(token.value) : null;
+		const text = match?.[2].trim();
+		const entries = text ? lookup.get(text.toLowerCase()) : undefined;
+		if (match && text && entries) {
+			result.push({
+				range: new vscode.Range(document.positionAt(token.start), document.positionAt(token.end)),
+				quote: match[1],
+				text,
+				translations: [...new Set(entries.map(entry => entry.translation))]
+			});
+		}
+	});
+
+	return result;
+}
+
+/**
+ * Returns the values of the translations in all other languages, the default language first.
+ */
+function getOtherValues(translated: TranslatedString): { value: string; language: (typeof TRANSLATION_LANGUAGES)[number] }[] {
+	const defaultLanguage = getDefaultTranslationLanguage();
+	const values: { value: string; language: (typeof TRANSLATION_LANGUAGES)[number] }[] = [];
+
+	translated.translations.forEach(translation => {
+		TRANSLATION_LANGUAGES
+			.filter(language => translation[language.code])
+			.sort((a, b) => Number(b.code === defaultLanguage) - Number(a.code === defaultLanguage))
+			.forEach(language => {
+				const value = translation[language.code]!.trim();
+				if (value.toLowerCase() !== translated.text.toLowerCase() && !values.some(v => v.value === value)) {
+					values.push({ value, language });
+				}
+			});
+	});
+
+	return values;
+}
+
+/**
+ * Replaces the text of a string literal by a translation. The quotes and surrounding spaces are kept,
+ * quotes in the translation are escaped. Without value, the translation is picked.
+ */
+async function replaceStringLiteral(uri: string, line: number, start: number, end: number, value?: string) {
+	try {
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+		const range = new vscode.Range(line, start, line, end);
+		const literal = document.getText(range);
+		const quote = literal.charAt(0);
+		const lookup = await getCachedTranslationLookup();
+		const translated = lookup ? findTranslatedStrings(document, lookup, line).find(t => t.range.isEqual(range)) : undefined;
+		if (!translated || !literal.endsWith(quote)) {
+			vscode.window.showWarningMessage('The string has changed, no translation found.');
+			return;
+		}
+
+		if (value === undefined) {
+			const selection = await window.showQuickPick(
+				getOtherValues(translated).map(({ value, language }) => ({
+					label: value,
+					description: `${language.label} | ${language.code} | ${language.variant}`,
+					value
+				})),
+				{ placeHolder: `Replace "${translated.text}" with ...`, matchOnDescription: true }
+			);
+			value = selection?.value;
+		}
+		if (value === undefined) {
+			return;
+		}
+
+		const content = literal.substring(1, literal.length - 1);
+		const escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+		const edit = new vscode.WorkspaceEdit();
+		edit.replace(
+			document.uri,
+			new vscode.Range(line, start + 1, line, end - 1),
+			content.replace(content.trim(), () => escaped)
+		);
+		await vscode.workspace.applyEdit(edit);
+
+	} catch (error) {
+		console.error('Error replacing the string:', error);
+		vscode.window.showErrorMessage('An error occured while replacing the string.');
+	}
+}
+
+/**
+ * Returns the command arguments to replace a string literal.
+ */
+function getReplaceArguments(document: vscode.TextDocument, translated: TranslatedString, value?: string) {
+	const { range } = translated;
+	const args: (string | number)[] = [document.uri.toString(), range.start.line, range.start.character, range.end.character];
+	return value === undefined ? args : [...args, value];
+}
+
+/**
+ * Shows the other languages of string literals which match a translation, with actions to replace the text.
+ */
+class TranslationHoverProvider implements vscode.HoverProvider {
+	async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+		try {
+			const lookup = await getCachedTranslationLookup();
+			const translated = lookup ? findTranslatedStrings(document, lookup, position.line).find(t => t.range.contains(position)) : undefined;
+			if (!translated) {
+				return undefined;
+			}
+
+			const values = getOtherValues(translated);
+			if (values.length === 0) {
+				return undefined;
+			}
+
+			const markdown = new vscode.MarkdownString();
+			markdown.isTrusted = { enabledCommands: [REPLACE_STRING_COMMAND] };
+			const isLocal = translated.translations.some(translation => translation.is_local);
+			markdown.appendMarkdown(`**Translation**${isLocal ? ' (glossary)' : ''}\n\n`);
+			markdown.appendMarkdown('| Language | Code | Text | |\n|---|---|---|---|\n');
+			values.forEach(({ value, language }) => {
+				const args = encodeURIComponent(JSON.stringify(getReplaceArguments(document, translated, value)));
+				const text = value.replace(/[|\\`*_[\]<>]/g, '\\$&');
+				markdown.appendMarkdown(`| ${language.label} | ${language.code} | ${text} | [Replace](command:${REPLACE_STRING_COMMAND}?${args}) |\n`);
+			});
+
+			return new vscode.Hover(markdown, translated.range);
+
+		} catch (error) {
+			console.error('Error providing the translation hover:', error);
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Shows a code lens above string literals which match a translation, if enabled by the TranslationCodeLens setting.
+ */
+class TranslationCodeLensProvider implements vscode.CodeLensProvider {
+	private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+	refresh() {
+		this.onDidChangeCodeLensesEmitter.fire();
+	}
+
+	async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+		if (!vscode.workspace.getConfiguration('vertecVscodeExtension').get<boolean>('TranslationCodeLens', false)) {
+			return [];
+		}
+
+		try {
+			const lookup = await getCachedTranslationLookup();
+			if (!lookup) {
+				return [];
+			}
+
+			if (token.isCancellationRequested) {
+				return [];
+			}
+
+			return findTranslatedStrings(document, lookup).map(translated => new vscode.CodeLens(translated.range, {
+				title: `Replace "${translated.text}" with ...`,
+				command: REPLACE_STRING_COMMAND,
+				arguments: getReplaceArguments(document, translated)
+			}));
+
+		} catch (error) {
+			console.error('Error providing the translation code lenses:', error);
+			return [];
+		}
+	}
+
+	dispose() {
+		this.onDidChangeCodeLensesEmitter.dispose();
+	}
+}
+
+/**
+ * Activates the translator by registering the code action, hover and code lens providers.
+ */
+export function activateTranslator(context: vscode.ExtensionContext): void {
+	const selector: vscode.DocumentSelector = [
+		{ scheme: 'file', language: 'python' },
+		{ scheme: 'untitled', language: 'python' }
+	];
+	const codeLensProvider = new TranslationCodeLensProvider();
+
+	context.subscriptions.push(
+		vscode.languages.registerCodeActionsProvider(
+			selector,
+			new TranslationCodeActionProvider(),
+			{ providedCodeActionKinds: TranslationCodeActionProvider.providedCodeActionKinds }
+		),
+		vscode.languages.registerHoverProvider(selector, new TranslationHoverProvider()),
+		vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
+		codeLensProvider,
+		vscode.commands.registerCommand(REPLACE_STRING_COMMAND, replaceStringLiteral),
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('vertecVscodeExtension.TranslationCodeLens')) {
+				codeLensProvider.refresh();
+			}
+		}),
+		// The code lenses only use loaded translations, show them once the translations are loaded.
+		onDidChangeCacheStatus(() => codeLensProvider.refresh())
+	);
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { ModelIndex, VertecClass, getModelIndex, getModelIndexFor, getAssociationRoleInfo } from './DataProvider';
+import { ChainAccess, findChainExpressions, findClassReferences, resolveChainAccesses } from './AutoCompletor';
+import { pickComparisonModel } from './ModelDiff';
+import { getActiveModelProfile, getModelProfileLabel } from './ModelProfiles';
+
+// Folders which don't contain own scripts.
+const EXCLUDED_FOLDERS = '**/{node_modules,.venv,venv,env,site-packages,__pycache__,.git}/**';
+
+let diagnostics: vscode.DiagnosticCollection | null = null;
+
+// The model of the last scan, used to rescan saved scripts.
+let lastTarget: { label: string; index: ModelIndex } | null = null;
+
+/**
+ * Checks a member or association access against the newer model.
+ * @returns the problem description or null if the access still works.
+ */
+function checkAccess(access: ChainAccess, target: { label: string; index: ModelIndex }): string | null {
+    const { index } = target;
+    const className = access.ownerClass.name;
+    const newClass = index.getClassById(access.ownerClass.class_id);
+    if (!newClass) {
+        return `Class "${className}" no longer exists in ${target.label}.`;
+    }
+
+    if (access.member) {
+        if (index.findMember(newClass, access.name)) {
+            return null;
+        }
+
+        // Renamed members keep one of their names.
+        const renamed = index.findMember(newClass, access.member.name) ?? index.findMember(newClass, access.member.name_alt);
+        return renamed
+            ? `Member "${access.name}" of "${className}" was renamed to "${renamed.name}" in ${target.label}.`
+            : `Member "${access.name}" of "${className}" no longer exists in ${target.label}.`;
+    }
+
+    if (access.association) {
+        const association = index.findAssociation(newClass, access.name);
+        if (!association) {
+            const renamed = index.findAssociation(newClass, access.association.perceived_name)
+                ?? (access.association.perceived_name_alt
+                    ? index.findAssociation(newClass, access.association.perceived_name_alt)
+                    : undefined);
+            return renamed
+                ? `Association "${access.name}" of "${className}" was renamed to "${renamed.perceived_name}" in ${target.label}.`
+                : `Association "${access.name}" of "${className}" no longer exists in ${target.label}.`;
+        }
+
+        const isMulti = getAssociationRoleInfo(association, newClass, index.classes, true)?.is_role_multi === true;
+        if (isMulti !== access.isMulti) {
+            return isMulti
+                ? `Association "${access.name}" of "${className}" changed from single to multi in ${target.label}, it returns a list now.`
+                : `Association "${access.name}" of "${className}" changed from multi to single in ${target.label}, it returns a single object now.`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks a class named in a script, e.g. in an annotation, against the newer model.
+ * @returns the problem description or null if the name still works.
+ */
+function checkClass(cls: VertecClass, name: string, target: { label: string; index: ModelIndex }): string | null {
+    const newClass = target.index.getClassById(cls.class_id);
+    if (!newClass) {
+        return `Class "${name}" no longer exists in ${target.label}.`;
+    }
+
+    return target.index.findClass(name)?.class_id === newClass.class_id
+        ? null
+        : `Class "${name}" was renamed to "${newClass.name}" in ${target.label}.`;
+}
+
+/**
+ * Resolves all member and association accesses and class references of a script and checks them against the newer model.
+ */
+async function scanDocument(
+    document: vscode.TextDocument,
+    target: { label: string; index: ModelIndex }
+): Promise<vscode.Diagnostic[]> {
+    const result: vscode.Diagnostic[] = [];
+    const index = await getModelIndex(false, getActiveModelProfile(document.uri));
+
+    const report = (lineNumber: number, column: number, name: string, problem: string | null) => {
+        if (!problem) {
+            return;
+        }
+
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(lineNumber, column, lineNumber, column + name.length),
+            problem,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Vertec upgrade';
+        result.push(diagnostic);
+    };
+
+    for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+        for (const { chain, start, partColumns } of findChainExpressions(document.lineAt(lineNumber).text, lineNumber)) {
+            const position = new vscode.Position(lineNumber, start + chain.length);
+            const accesses = await resolveChainAccesses(document, position, chain);
+            accesses.forEach(access => report(lineNumber, partColumns[access.partIndex], access.name, checkAccess(access, target)));
+        }
+
+        findClassReferences(document, lineNumber).forEach(({ name, column }) => {
+            const cls = index.findClass(name);
+            if (cls) {
+                report(lineNumber, column, name, checkClass(cls, name, target));
+            }
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Scans all Python scripts of the workspace for member and association accesses which
+ * no longer work with a newer model. The problems are listed in the Problems view.
+ */
+export async function scanUpgradeImpact() {
+    try {
+        if (!diagnostics) {
+            throw new Error('Upgrade scanner not activated');
+        }
+
+        const activeProfile = getActiveModelProfile();
+        const comparison = await pickComparisonModel(
+            activeProfile,
+            `Check the scripts of "${getModelProfileLabel(activeProfile)}" against ...`
+        );
+        if (!comparison) {
+            return;
+        }
+
+        const target = { label: comparison.label, index: getModelIndexFor(comparison.classes) };
+        const files = await vscode.workspace.findFiles('**/*.py', EXCLUDED_FOLDERS);
+        let problemCount = 0;
+        let fileCount = 0;
+        let scannedCount = 0;
+        let cancelled = false;
+
+        diagnostics.clear();
+        lastTarget = target;
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Checking scripts against the newer model',
+                cancellable: true
+            },
+            async (progress, token) => {
+                for (const file of files) {
+                    if (token.isCancellationRequested) {
+                        cancelled = true;
+                        break;
+                    }
+                    progress.report({
+                        message: vscode.workspace.asRelativePath(file),
+                        increment: 100.0 / files.length
+                    });
+
+                    const document = await vscode.workspace.openTextDocument(file);
+                    const problems = await scanDocument(document, target);
+                    diagnostics?.set(file, problems);
+                    problemCount += problems.length;
+                    if (problems.length > 0) {
+                        fileCount++;
+                    }
+                    scannedCount++;
+                }
+            }
+        );
+
+        const cancelledNote = cancelled ? `Scan cancelled after ${scannedCount} of ${files.length} scripts. ` : '';
+        if (problemCount === 0) {
+            vscode.window.showInformationMessage(`${cancelledNote}No problems found in ${scannedCount} scripts.`);
+            return;
+        }
+
+        const selection = await vscode.window.showWarningMessage(
+            `${cancelledNote}Found ${problemCount} problems in ${fileCount} scripts.`,
+            'Show problems'
+        );
+        if (selection) {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return;
+        }
+        console.error('Error scanning the scripts:', error);
+        vscode.window.showErrorMessage('An error occured while scanning the scripts.');
+    }
+}
+
+/**
+ * Removes the results of the upgrade impact scan.
+ */
+export function clearUpgradeImpact() {
+    diagnostics?.clear();
+    lastTarget = null;
+}
+
+/**
+ * Activates the upgrade scanner. Saved scripts are checked again against the model of the last scan.
+ */
+export function activateUpgradeScanner(context: vscode.ExtensionContext): void {
+    diagnostics = vscode.languages.createDiagnosticCollection('vertec-upgrade');
+
+    context.subscriptions.push(
+        diagnostics,
+        vscode.workspace.onDidSaveTextDocument(async document => {
+            if (!lastTarget || document.languageId !== 'python') {
+                return;
+            }
+            try {
+                diagnostics?.set(document.uri, await scanDocument(document, lastTarget));
+            } catch (error) {
+                console.error('Error scanning the script:', error);
+            }
+        })
+    );
+}
@@ -0,0 +1,166 @@
+import { Token, findClosingBracket, getStringValue, splitTopLevel } from './PythonScope';
+
+/**
+ * Function of the vtcapp module of Vertec scripts.
+ */
+export interface VtcappFunction {
+    signature: string;
+    description: string;
+    className?: string;         // Class of the result, if it is fixed.
+    classArgument?: number;     // Index of the argument with the class name of the result, e.g. 0 for getwithsql("Projekt", ...).
+    isList: boolean;
+}
+
+/**
+ * Global of Vertec scripts, provided by Vertec without import.
+ */
+export interface ScriptGlobal {
+    description: string;
+    setting?: string;           // Setting with the class of the global, it depends on where the script is registered.
+}
+
+/**
+ * The vtcapp functions which return Vertec objects, and the evalocl function which is resolved by its expression.
+ */
+export const VTCAPP_FUNCTIONS = new Map<string, VtcappFunction>([
+    ['currentlogin', {
+        signature: 'currentlogin()',
+        description: 'Returns the logged in user.',
+        className: 'Projektbearbeiter',
+        isList: false
+    }],
+    ['getwithsql', {
+        signature: 'getwithsql(classname, where, order, idfilterfeld="", objectlist=[])',
+        description: 'Returns the objects of a class which match the SQL condition.',
+        classArgument: 0,
+        isList: true
+    }],
+    ['getwithsqlbymultiplevalues', {
+        signature: 'getwithsqlbymultiplevalues(classname, fieldname, values)',
+        description: 'Returns the objects of a class whose field has one of the values.',
+        classArgument: 0,
+        isList: true
+    }],
+    ['getobjectbyentryid', {
+        signature: 'getobjectbyentryid(classname, entryid)',
+        description: 'Returns the object of a class with the entry id.',
+        classArgument: 0,
+        isList: false
+    }],
+    ['createobject', {
+        signature: 'createobject(classname)',
+        description: 'Creates a new object of a class.',
+        classArgument: 0,
+        isList: false
+    }],
+    ['getobjectbyid', {
+        signature: 'getobjectbyid(id)',
+        description: 'Returns the object with the internal id. Its class is unknown, add a type hint to the variable.',
+        isList: false
+    }],
+    ['evalocl', {
+        signature: 'evalocl(expression, rootobject=None)',
+        description: 'Evaluates an OCL expression, on the root object if given.',
+        isList: false
+    }]
+]);
+
+/**
+ * Globals of Vertec scripts with the class of their object.
+ */
+export const SCRIPT_GLOBALS = new Map<string, ScriptGlobal>([
+    ['argobject', {
+        description: 'Object on which the script is run.',
+        setting: 'ArgobjectClass'
+    }]
+]);
+
+/**
+ * Finds the string arguments with the class name of vtcapp calls, e.g. "Projekt" of 'vtcapp.getwithsql("Projekt", "", "")'.
+ */
+export function findClassNameArguments(tokens: Token[]): { token: Token; className: string }[] {
+    const result: { token: Token; className: string }[] = [];
+    tokens.forEach((token, i) => {
+        const vtcappFunction = VTCAPP_FUNCTIONS.get(tokens[i + 2]?.value ?? '');
+        if (token.value !== 'vtcapp' || tokens[i - 1]?.value === '.' || tokens[i + 1]?.value !== '.'
+            || tokens[i + 3]?.value !== '(' || vtcappFunction?.classArgument === undefined) {
+            return;
+        }
+
+        const close = findClosingBracket(tokens, i + 3);
+        const argument = splitTopLevel(tokens.slice(i + 4, close), ',')[vtcappFunction.classArgument];
+        const className = argument?.length === 1 ? getStringValue(argument[0]) : null;
+        if (className) {
+            result.push({ token: argument[0], className });
+        }
+    });
+
+    return result;
+}
+
+// OCL collection operations which keep the elements, and which return a single element.
+const OCL_FILTER_OPERATIONS = new Set(['select', 'reject', 'orderby', 'orderdescending', 'asset', 'assequence']);
+const OCL_ELEMENT_OPERATIONS = new Set(['first', 'last']);
+
+/**
+ * Translates an OCL expression into the accessors of a chain, e.g. "phasen->first.code" into ".phasen[0].code".
+ * An expression starting with "Klasse.allInstances" returns the class, its accessors start on the list of objects.
+ * Collection operations which keep the elements (select, reject, orderBy) are skipped.
+ * @returns null for other expressions, e.g. with arithmetic or other operations.
+ */
+export function parseOclExpression(expression: string): { className?: string; accessors: string } | null {
+    let rest = expression.trim();
+    let className: string | undefined;
+    let accessors = '';
+
+    const allInstances = rest.match(/^(\w+)\s*\.\s*allinstances\b/i);
+    if (allInstances) {
+        className = allInstances[1];
+        rest = rest.substring(allInstances[0].length);
+    } else {
+        rest = '.' + rest;
+    }
+
+    while ((rest = rest.trim())) {
+        const member = rest.match(/^\.\s*(\w+)/);
+        if (member) {
+            accessors += `.${member[1]}`;
+            rest = rest.substring(member[0].length);
+            continue;
+        }
+
+        const operation = rest.match(/^->\s*(\w+)\s*/);
+        const name = operation?.[1].toLowerCase() ?? '';
+        if (!operation || (!OCL_FILTER_OPERATIONS.has(name) && !OCL_ELEMENT_OPERATIONS.has(name))) {
+            return null;
+        }
+        rest = rest.substring(operation[0].length);
+        if (OCL_ELEMENT_OPERATIONS.has(name)) {
+            accessors += '[0]';
+        }
+
+        // Skip the arguments, e.g. "->select(aktiv)".
+        if (rest.startsWith('(')) {
+            let depth = 0;
+            let i = 0;
+            for (; i < rest.length; i++) {
+                if (rest[i] === '\'') {
+                    i = rest.indexOf('\'', i + 1);
+                    if (i < 0) {
+                        return null;
+                    }
+                } else if (rest[i] === '(') {
+                    depth++;
+                } else if (rest[i] === ')' && --depth === 0) {
+                    break;
+                }
+            }
+            if (i >= rest.length) {
+                return null;
+            }
+            rest = rest.substring(i + 1);
+        }
+    }
+
+    return { className, accessors };
+}
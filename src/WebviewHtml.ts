@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+/**
+ * Escapes text for the use in html content and attribute values.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Creates a random nonce for the script of a webview, which the Content-Security-Policy of the view allows to run.
+ */
+export function createNonce(): string {
+    return crypto.randomBytes(16).toString('hex');
+}
@@ -1,15 +1,38 @@
 import { commands, ExtensionContext } from 'vscode';
-import { translateClass, translateMember, translateText } from './Translator';
+import { activateTranslator, translateAtCursor, translateClass, translateMember, translateText } from './Translator';
 import { initializeCaches, reloadModel, reloadTranslations } from './DataProvider';
 import { modelBrowse } from './ModelBrowser';
 import { compareClipboard } from './Comparator';
 import { activateAutoCompletor } from './AutoCompletor';
 import { activateStubProvider, reloadStubs } from './StubProvider';
+import { activateModelProfiles, selectModelProfile } from './ModelProfiles';
+import { clearCredentials, initializeHttpClient, setCredentials } from './HttpClient';
+import { activateCacheInspector, showCacheStatus } from './CacheInspector';
+import { compareModels, saveModelSnapshot } from './ModelDiff';
+import { activateUpgradeScanner, clearUpgradeImpact, scanUpgradeImpact } from './UpgradeScanner';
+import { activateModelOverlay } from './ModelOverlay';
+import { exportModel } from './ModelExport';
+import { checkModelConsistency } from './ModelChecker';
+import { convertScript } from './ScriptConverter';
+import { activateGlossary, addTranslation } from './Glossary';
+import { exportTranslations, importTranslations } from './TranslationExport';
 
 export function activate(context: ExtensionContext) {
 	// Initialize the model cache with the extension context
     initializeCaches(context);
 
+	// Vertec: Customer-specific additions to the model
+	activateModelOverlay(context);
+
+	// Vertec: Credentials for downloads
+	initializeHttpClient(context);
+	commands.registerCommand('vertec.credentials.set', () => setCredentials());
+	commands.registerCommand('vertec.credentials.clear', () => clearCredentials());
+
+	// Vertec: Model profiles
+	activateModelProfiles(context);
+	commands.registerCommand('vertec.modelprofile.select', () => selectModelProfile());
+
 	// Vertec: In-Memory Stub Provider
 	activateStubProvider(context);
 
@@ -21,13 +44,35 @@ export function activate(context: ExtensionContext) {
 	commands.registerCommand('vertec.reload.translations', () => reloadTranslations());
 	commands.registerCommand('vertec.reload.stubs', () => reloadStubs());
 
+	// Vertec: Cache status
+	activateCacheInspector(context);
+	commands.registerCommand('vertec.cache.status', () => showCacheStatus());
+
 	// Vertec: Translator
 	commands.registerCommand('vertec.translator.class', () => translateClass());
 	commands.registerCommand('vertec.translator.member', () => translateMember());
 	commands.registerCommand('vertec.translator.text', () => translateText());
+	commands.registerCommand('vertec.translator.cursor', () => translateAtCursor());
+	commands.registerCommand('vertec.translator.convertScript', () => convertScript());
+	commands.registerCommand('vertec.translator.add', () => addTranslation());
+	commands.registerCommand('vertec.translator.export', () => exportTranslations());
+	commands.registerCommand('vertec.translator.import', () => importTranslations());
+	activateGlossary(context);
+	activateTranslator(context);
 
 	// Vertec: Model Browser
 	commands.registerCommand('vertec.modelbrowser.browse', () => modelBrowse());
+	commands.registerCommand('vertec.modelbrowser.export', () => exportModel());
+	commands.registerCommand('vertec.modelbrowser.check', () => checkModelConsistency());
+
+	// Vertec: Model Diff
+	commands.registerCommand('vertec.modeldiff.compare', () => compareModels());
+	commands.registerCommand('vertec.modeldiff.saveSnapshot', () => saveModelSnapshot());
+
+	// Vertec: Upgrade impact scan
+	activateUpgradeScanner(context);
+	commands.registerCommand('vertec.upgrade.scan', () => scanUpgradeImpact());
+	commands.registerCommand('vertec.upgrade.clear', () => clearUpgradeImpact());
 
 	// Vertec: Comparator
 	commands.registerCommand('vertec.comparator.compareClipboard', () => compareClipboard());